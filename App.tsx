@@ -1,72 +1,152 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { GameState, GameStatus, Player, Card as CardModel, CardColor, ChatMessage, NetworkRole, PlayerAction, NetworkPacket } from './types';
-import { createDeck, shuffleDeck, isCardValid, findBestMove, pickBestColor } from './services/gameLogic';
+import { GameState, GameStatus, Player, Card as CardModel, CardColor, ChatMessage, NetworkRole, PlayerAction, NetworkMessage, GameEvent, LobbyPlayer, ActionRejection, ActionRejected, RejectReason, PlayerView, RuleSet, MatchLog, MatchRecord, BotDifficulty, DeckPresetId, PlayerProfile, HostSnapshot, JoinRequest, RemovalReason, StartGameRequest, TeamRules, TransportKind } from './types';
+import { canPlayCard, isWildCard } from './services/gameLogic';
+import { abandonSeat, applyAction, createLobbyState, createSeats, dealGame, isConsistentState, setPlayerAway, startNextRound } from './services/gameEngine';
+import { getPlayerView, getSpectatorView, getViewPlayContext } from './services/playerView';
+import { deriveSeed } from './services/random';
+import { getBotStrategy } from './services/botStrategy';
+import { requestExpertMove } from './services/expertBot';
+import { botRandom, planBotTurn, planJumpIns, planTimedOutTurn, planUnoCatches } from './services/botTurn';
+import { GameTransport, TransportConnection, createTransport } from './services/transport';
+import { cleanPlayerName, protocolError, receivePacket } from './services/protocol';
+import { applyViewPatch, classifyPatch, createViewSync } from './services/stateSync';
+import { createActionGuard } from './services/antiCheat';
+import { StoredSession, clearSession, createSessionToken, hashSessionToken, loadSession, saveSession } from './services/session';
 import { generateBotChat } from './services/geminiService';
-import { AVATARS, BOT_NAMES } from './constants';
-import Card from './components/Card';
-import Chat from './components/Chat';
-
-// Globals for PeerJS (window.Peer)
-declare global {
-  interface Window {
-    Peer: any;
-  }
-}
+import { appendAction, appendNextRound, createMatchLog, downloadMatchLog } from './services/matchLog';
+import { addMatchRecord, listMatchRecords, loadProfile, saveProfile } from './services/profileStore';
+import { createMatchRecord, updateStats } from './services/profileStats';
+import { AVATARS, BOT_EXPERT_TIME_BUDGET_MS, BOT_TURN_DELAY_MS, CARD_DEFINITIONS, COLOR_LABELS, DEFAULT_BOT_DIFFICULTY, DEFAULT_DECK, DEFAULT_GAME_SERVER_URL, DEFAULT_PLAYER_NAME, DEFAULT_RULES, DEFAULT_TARGET_SCORE, DEFAULT_TURN_TIME_LIMIT, DEFAULT_BOT_COUNT, HOST_CLAIM_ATTEMPTS, MAX_SEATS, MIN_SEATS, REMOVAL_LABELS, HOST_CLAIM_RETRY_MS, HOST_SNAPSHOT_INTERVAL_MS, RECONNECT_ATTEMPTS, RECONNECT_RETRY_MS, RECONNECT_TIMEOUT_MS, REJECTION_LABELS, TEAM_SEATS, TURN_TIMEOUT_AFK_LIMIT } from './constants';
+import Lobby from './components/Lobby';
+import GameInterface from './components/GameInterface';
+import ReplayViewer from './components/ReplayViewer';
+import PassDevice from './components/PassDevice';
+import ProfileScreen from './components/ProfileScreen';
 
 // Utility for simple unique IDs
 const uuid = () => Math.random().toString(36).substr(2, 9);
 const generateRoomCode = () => Math.random().toString(36).substring(2, 6).toUpperCase();
 
 // Lobby States
-type LobbyView = 'MENU' | 'CREATE' | 'JOIN' | 'WAITING_HOST' | 'WAITING_CLIENT';
-type GameMode = '1v1' | '1v3' | '1v4'; 
+type LobbyView = 'MENU' | 'CREATE' | 'JOIN' | 'WAITING_HOST' | 'WAITING_CLIENT' | 'LOCAL' | 'REPLAY' | 'PROFILE';
+
+// Host-side record of everyone in the room. `away` peers dropped mid-match and
+// may still reclaim their seat with their session token.
+interface ConnectedPeer {
+  id: string;
+  name: string;
+  avatar?: string;
+  conn: TransportConnection | null;
+  peerId?: string;
+  sessionToken?: string;
+  sessionTokenHash?: string; // Seats inherited through host migration only know the hash
+  away?: boolean;
+  flagged?: boolean; // Tripped the anti-cheat (services/antiCheat)
+  spectator?: boolean; // Watches without a seat
+  ready?: boolean;
+}
+
+// The list order is the seat order; the host is always ready
+const lobbyPlayers = (peers: ConnectedPeer[]): LobbyPlayer[] =>
+    peers.map(p => ({ id: p.id, name: p.name, avatar: p.avatar, ready: p.peerId === 'HOST' || !!p.ready, flagged: p.flagged, spectator: p.spectator }));
+
+const fromLobbyPlayers = (players: LobbyPlayer[]): ConnectedPeer[] =>
+    players.map(p => ({ id: p.id, name: p.name, conn: null, ready: p.ready, flagged: p.flagged, spectator: p.spectator }));
 
 const App: React.FC = () => {
   // --- Game State ---
-  const [gameState, setGameState] = useState<GameState>({
-    status: GameStatus.LOBBY,
-    players: [],
-    currentPlayerIndex: 0,
-    direction: 1,
-    drawPile: [],
-    discardPile: [],
-    currentColor: 'red',
-    winner: null,
-    turnCount: 0,
-  });
+  const [gameState, setGameState] = useState<GameState>(createLobbyState);
+  // Clients never hold the authoritative state, only the view the host sent them
+  const [remoteView, setRemoteView] = useState<PlayerView | null>(null);
+  const remoteViewRef = useRef<PlayerView | null>(null);
+  remoteViewRef.current = remoteView;
 
   // --- UI State ---
-  const [playerName, setPlayerName] = useState('Jogador 1');
+  const [playerName, setPlayerName] = useState(DEFAULT_PLAYER_NAME);
   const [lobbyView, setLobbyView] = useState<LobbyView>('MENU');
   const [roomCode, setRoomCode] = useState('');
   const [joinCode, setJoinCode] = useState('');
   const [connectionStatus, setConnectionStatus] = useState('');
-  
-  // Mobile UI States
-  const [isChatOpen, setIsChatOpen] = useState(false);
-  const [unreadMessages, setUnreadMessages] = useState(0);
+  const [targetScore, setTargetScore] = useState(DEFAULT_TARGET_SCORE);
+  const [turnTimeLimit, setTurnTimeLimit] = useState(DEFAULT_TURN_TIME_LIMIT);
+  const [rules, setRules] = useState<RuleSet>(DEFAULT_RULES);
+  const [seedInput, setSeedInput] = useState('');
+  // Team mode (2v2) and its options; null plays everyone for themselves
+  const [teams, setTeams] = useState<TeamRules | null>(null);
+  const [deck, setDeck] = useState<DeckPresetId>(DEFAULT_DECK);
+  // One entry per bot to seat
+  const [botDifficulties, setBotDifficulties] = useState<BotDifficulty[]>(() => Array(DEFAULT_BOT_COUNT).fill(DEFAULT_BOT_DIFFICULTY));
+  const [maxPlayers, setMaxPlayers] = useState(MAX_SEATS);
+  const maxPlayersRef = useRef(maxPlayers);
+  maxPlayersRef.current = maxPlayers;
+  // Offline: names of the other humans sharing this device (pass-and-play)
+  const [localPlayers, setLocalPlayers] = useState<string[]>([]);
+  // Set while a pass-and-play match runs; `handoffTo` is the human the device must go to next
+  const [isHotSeat, setIsHotSeat] = useState(false);
+  const [handoffTo, setHandoffTo] = useState<string | null>(null);
 
   // --- Network State ---
   const [networkRole, setNetworkRole] = useState<NetworkRole>('OFFLINE');
   const networkRoleRef = useRef<NetworkRole>('OFFLINE'); 
+  const [transportKind, setTransportKind] = useState<TransportKind>('peer');
+  const [serverUrl, setServerUrl] = useState(DEFAULT_GAME_SERVER_URL);
+  // With the game server as host, the client that opened the room runs the match controls
+  const [isRoomOwner, setIsRoomOwner] = useState(false);
+  // Client watching the room without a seat / host letting spectators see every hand
+  const [isSpectator, setIsSpectator] = useState(false);
+  const [revealHands, setRevealHands] = useState(false);
+  const revealHandsRef = useRef(revealHands);
+  revealHandsRef.current = revealHands;
 
   const [myPlayerId, setMyPlayerId] = useState<string>(''); 
-  const [connectedPeers, setConnectedPeers] = useState<{id: string, name: string, conn: any, peerId?: string}[]>([]);
-  const connectedPeersRef = useRef<{id: string, name: string, conn: any, peerId?: string}[]>([]);
+  const [connectedPeers, setConnectedPeers] = useState<ConnectedPeer[]>([]);
+  const connectedPeersRef = useRef<ConnectedPeer[]>([]);
+  // Seat a client may resume after reloading the tab
+  const [savedSession, setSavedSession] = useState<StoredSession | null>(loadSession);
+  // Local profile (name, avatar, stats) and its match history, kept in IndexedDB
+  const [profile, setProfile] = useState<PlayerProfile | null>(null);
+  const [matchHistory, setMatchHistory] = useState<MatchRecord[]>([]);
+  // A match from the history, opened in the replay viewer
+  const [replayLog, setReplayLog] = useState<MatchLog | null>(null);
 
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   
   // --- Interaction State ---
   const [wildColorSelector, setWildColorSelector] = useState<{ isOpen: boolean, cardToPlay: CardModel | null }>({ isOpen: false, cardToPlay: null });
+  const [swapTargetSelector, setSwapTargetSelector] = useState<{ isOpen: boolean, cardToPlay: CardModel | null }>({ isOpen: false, cardToPlay: null });
   const [lastAction, setLastAction] = useState<string>('');
 
   // Refs
   const stateRef = useRef(gameState);
   stateRef.current = gameState; 
-  const peerRef = useRef<any>(null);
-  const connectionsRef = useRef<any[]>([]); 
-  const hostConnRef = useRef<any>(null); 
+  const myPlayerIdRef = useRef(myPlayerId);
+  myPlayerIdRef.current = myPlayerId;
+  const roomCodeRef = useRef(roomCode);
+  roomCodeRef.current = roomCode;
+  const transportRef = useRef<GameTransport | null>(null);
+  const connectionsRef = useRef<TransportConnection[]>([]); 
+  const hostConnRef = useRef<TransportConnection | null>(null); 
   const botTimeoutRef = useRef<any>(null);
+  const unoCatchTimeoutsRef = useRef<any[]>([]);
+  const jumpInTimeoutsRef = useRef<any[]>([]);
+  // Host-only record of every accepted action, exported for the replay viewer
+  const matchLogRef = useRef<MatchLog | null>(null);
+  const awayTimeoutsRef = useRef<Record<string, any>>({});
+  // Host migration: who takes over if the host leaves, and (on that client) the latest snapshot
+  const successorIdRef = useRef<string | null>(null);
+  const snapshotRef = useRef<HostSnapshot | null>(null);
+  const lastSnapshotRef = useRef<{ to: string; state: GameState } | null>(null); // Host: what the successor last got
+  // State sync: what the host last sent each peer / the last patch number a client applied
+  const viewSyncRef = useRef(createViewSync());
+  const viewSeqRef = useRef(0);
+  const resyncPendingRef = useRef(false);
+  // Host-only: rate limits and strike counts for what peers send
+  const guardRef = useRef(createActionGuard());
+  // Host-only: turn clock, and how many turns in a row each player let it run out
+  const turnTimerRef = useRef<any>(null);
+  // Host-only: session tokens and names of banned players (a determined player can still come back under a new name)
+  const bannedRef = useRef<Set<string>>(new Set());
+  const timeoutStreaksRef = useRef<Record<string, number>>({});
 
   // Helper to update role
   const updateNetworkRole = (role: NetworkRole) => {
@@ -92,12 +172,28 @@ const App: React.FC = () => {
     if (networkRoleRef.current === 'HOST') broadcast({ type: 'CHAT', payload: msg });
   };
 
-  const addChatMessage = (senderId: string, senderName: string, text: string) => {
-    const msg = { id: uuid(), senderId, senderName, text, timestamp: Date.now() };
-    setChatMessages(prev => {
-        if (!isChatOpen) setUnreadMessages(c => c + 1);
-        return [...prev, msg];
-    });
+  useEffect(() => {
+      loadProfile().then(loaded => {
+          setProfile(loaded);
+          setPlayerName(loaded.name);
+      });
+      listMatchRecords().then(setMatchHistory);
+  }, []);
+
+  useEffect(() => {
+      if (profile) saveProfile(profile);
+  }, [profile]);
+
+  const updateProfile = (update: Partial<PlayerProfile>) => setProfile(prev => prev && { ...prev, ...update });
+
+  const changePlayerName = (name: string) => {
+      setPlayerName(name);
+      updateProfile({ name });
+  };
+
+  const addChatMessage = (senderId: string, senderName: string, text: string, isSpectator?: boolean) => {
+    const msg: ChatMessage = { id: uuid(), senderId, senderName, text, timestamp: Date.now(), ...(isSpectator ? { isSpectator } : {}) };
+    setChatMessages(prev => [...prev, msg]);
     
     if (networkRoleRef.current === 'HOST') {
         broadcast({ type: 'CHAT', payload: msg });
@@ -106,172 +202,506 @@ const App: React.FC = () => {
     }
   };
 
-  // --- Network Logic (PeerJS) ---
+  // --- Network Logic (see services/transport) ---
   const cleanupNetwork = () => {
-      if (peerRef.current) {
-          peerRef.current.destroy();
-          peerRef.current = null;
+      if (transportRef.current) {
+          transportRef.current.destroy();
+          transportRef.current = null;
       }
       connectionsRef.current = [];
       hostConnRef.current = null;
+      successorIdRef.current = null;
+      snapshotRef.current = null;
+      lastSnapshotRef.current = null;
+      viewSyncRef.current = createViewSync();
+      viewSeqRef.current = 0;
+      guardRef.current = createActionGuard();
+      setRemoteView(null);
       updateConnectedPeers(() => []);
       updateNetworkRole('OFFLINE');
+      setIsRoomOwner(false);
+      setIsSpectator(false);
       setConnectionStatus('');
   };
 
   // 1. Setup Host
   const createRoom = () => {
-      if (peerRef.current) cleanupNetwork(); 
+      if (transportRef.current) cleanupNetwork(); 
 
       const code = generateRoomCode();
+      // The game server hosts the room; we join it as its owner
+      if (transportKind === 'websocket') return connectToRoom(code, 0, true);
+
       setRoomCode(code);
       setConnectionStatus('Iniciando servidor...');
       setLobbyView('WAITING_HOST');
       updateNetworkRole('HOST');
-      
-      const peerId = `cc-game-${code}`; 
-      const peer = new window.Peer(peerId);
-      peerRef.current = peer;
-
-      peer.on('open', (id: string) => {
-          console.log('Host initialized:', id);
-          setConnectionStatus('Sala Pronta');
+
+      openHostPeer(code, () => {
           const hostPlayerId = uuid();
           setMyPlayerId(hostPlayerId);
-          updateConnectedPeers(() => [{ id: hostPlayerId, name: playerName + " (Host)", conn: null, peerId: 'HOST' }]);
-      });
-
-      peer.on('connection', (conn: any) => {
-          conn.on('data', (data: NetworkPacket) => {
-             handleNetworkMessage(data, conn);
-          });
-          
-          conn.on('close', () => {
-              updateConnectedPeers(prev => {
-                  const remaining = prev.filter(p => p.conn !== conn);
-                  const list = remaining.map(p => ({name: p.name}));
-                  broadcast({ type: 'LOBBY_UPDATE', payload: { players: list } });
-                  return remaining;
-              });
-              addSystemMessage("Um jogador desconectou.");
-          });
+          updateConnectedPeers(() => [{ id: hostPlayerId, name: playerName + " (Host)", avatar: profile?.avatar, conn: null, peerId: 'HOST' }]);
       });
+  };
 
-      peer.on('error', (err: any) => {
-          if (err.type === 'unavailable-id') {
-              alert("Colisão de código de sala. Tente novamente.");
-              cleanupNetwork();
-              setLobbyView('MENU');
-          } else {
-             setConnectionStatus('Erro de Conexão: ' + err.type);
-          }
+  // Registers the room id with the transport. A migrating successor (`claimAttempt` set)
+  // may find the id still held for the old host and keeps retrying for a while.
+  const openHostPeer = (code: string, onOpen: () => void, claimAttempt?: number) => {
+      const transport = createTransport(transportKind, serverUrl);
+      transportRef.current = transport;
+      if (!transport.host) return;
+
+      transport.host(code, {
+          onOpen: () => {
+              console.log('Host initialized:', code);
+              setConnectionStatus('Sala Pronta');
+              onOpen();
+          },
+          onConnection: (conn) => {
+              conn.onData(data => handleNetworkMessage(data, conn));
+              conn.onClose(() => handlePeerClosed(conn));
+          },
+          onError: (error) => {
+              if (error === 'unavailable-id' && claimAttempt !== undefined && claimAttempt < HOST_CLAIM_ATTEMPTS) {
+                  transport.destroy();
+                  setTimeout(() => openHostPeer(code, onOpen, claimAttempt + 1), HOST_CLAIM_RETRY_MS);
+              } else if (error === 'unavailable-id') {
+                  alert("Colisão de código de sala. Tente novamente.");
+                  cleanupNetwork();
+                  setLobbyView('MENU');
+              } else if (error === 'room-lost') {
+                  alert("A sala foi assumida por outro host.");
+                  cleanupNetwork();
+                  setLobbyView('MENU');
+              } else {
+                 setConnectionStatus('Erro de Conexão: ' + error);
+              }
+          },
       });
   };
 
   // 2. Setup Client
-  const joinRoom = () => {
+  const joinRoom = (spectate = false) => {
       if (joinCode.length !== 4) return;
-      if (peerRef.current) cleanupNetwork();
+      connectToRoom(joinCode.toUpperCase(), 0, false, spectate);
+  };
+
+  const resumeSession = () => {
+      if (savedSession) connectToRoom(savedSession.roomCode);
+  };
+
+  // `attempt` > 0 means we are reconnecting to a match in progress:
+  // the last table stays on screen while we retry. `create` opens the room on the game server;
+  // `spectate` asks to watch without a seat.
+  const connectToRoom = (code: string, attempt = 0, create = false, spectate = false) => {
+      if (attempt === 0) {
+          if (transportRef.current) cleanupNetwork();
+          setLobbyView('WAITING_CLIENT');
+      } else if (transportRef.current) {
+          transportRef.current.destroy();
+          transportRef.current = null;
+      }
 
-      const code = joinCode.toUpperCase();
-      setLobbyView('WAITING_CLIENT');
       setRoomCode(code);
       updateNetworkRole('CLIENT');
-      setConnectionStatus('Conectando ao servidor...');
+      setConnectionStatus(attempt === 0 ? 'Conectando ao servidor...' : `Reconectando (${attempt}/${RECONNECT_ATTEMPTS})...`);
 
-      const peer = new window.Peer(); 
-      peerRef.current = peer;
+      const session = loadSession();
+      const sessionToken = session?.roomCode === code ? session.token : undefined;
+
+      const retryOrGiveUp = (message: string) => {
+          if (sessionToken && attempt < RECONNECT_ATTEMPTS) {
+              setConnectionStatus('Conexão perdida. Tentando reconectar...');
+              setTimeout(() => connectToRoom(code, attempt + 1), RECONNECT_RETRY_MS);
+              return;
+          }
+          if (sessionToken) {
+              clearSession();
+              setSavedSession(null);
+          }
+          alert(message);
+          cleanupNetwork();
+          setLobbyView('MENU');
+      };
 
-      peer.on('open', (id: string) => {
-          const hostId = `cc-game-${code}`;
-          const conn = peer.connect(hostId, { reliable: true }); 
-          hostConnRef.current = conn;
+      const transport = createTransport(transportKind, serverUrl);
+      transportRef.current = transport;
 
-          conn.on('open', () => {
+      transport.join(code, {
+          onOpen: (conn) => {
+              hostConnRef.current = conn;
               setConnectionStatus('Conectado! Verificando...');
+
+              conn.onData(data => handleNetworkMessage(data, conn));
+              conn.onClose(() => {
+                  if (transportRef.current !== transport) return;
+                  // The designated successor takes over; everyone else reconnects to it
+                  if (snapshotRef.current && successorIdRef.current === myPlayerIdRef.current) {
+                      promoteToHost(code, snapshotRef.current);
+                      return;
+                  }
+                  retryOrGiveUp("Host desconectou ou Sala Fechada");
+              });
+
               setTimeout(() => {
                   conn.send({ 
                       type: 'JOIN_REQUEST', 
-                      payload: { name: playerName } 
+                      payload: { name: playerName, avatar: profile?.avatar, sessionToken, ...(spectate ? { spectate } : {}) } 
                   });
               }, 500);
-          });
+          },
+          onError: (error) => {
+              if (transportRef.current !== transport) return;
+              if (error === 'unavailable-id') {
+                  alert("Colisão de código de sala. Tente novamente.");
+                  cleanupNetwork();
+                  setLobbyView('MENU');
+                  return;
+              }
+              if (sessionToken) return retryOrGiveUp('Não foi possível voltar à sala ' + code);
+              setConnectionStatus(error === 'network' ? 'Erro: Servidor indisponível' : 'Erro: Não foi possível encontrar sala ' + code);
+              setTimeout(() => {
+                  cleanupNetwork();
+                  setLobbyView('MENU');
+              }, 2000);
+          },
+      }, { create });
+  };
 
-          conn.on('data', (data: NetworkPacket) => {
-              handleNetworkMessage(data, conn);
-          });
-          
-          conn.on('close', () => {
-              alert("Host desconectou ou Sala Fechada");
-              cleanupNetwork();
-              setLobbyView('MENU');
+  // --- Reconnection (Host) ---
+  const setSeatAway = (playerId: string, away: boolean) => {
+      const state = setPlayerAway(stateRef.current, playerId, away);
+      stateRef.current = state;
+      setGameState(state);
+  };
+
+  const handlePeerClosed = (conn: TransportConnection) => {
+      const peer = connectedPeersRef.current.find(p => p.conn === conn);
+      if (!peer) return;
+      viewSyncRef.current.forget(peer.id);
+
+      const state = stateRef.current;
+      const isSeated = state.status !== GameStatus.LOBBY && state.players.some(p => p.id === peer.id && !p.isBot);
+      if (!isSeated) {
+          updateConnectedPeers(prev => {
+              const remaining = prev.filter(p => p.conn !== conn);
+              broadcastLobby(remaining);
+              return remaining;
           });
+          addSystemMessage("Um jogador desconectou.");
+          return;
+      }
+
+      // Keep the seat warm: a bot plays it until the player returns or time runs out
+      updateConnectedPeers(prev => prev.map(p => p.conn === conn ? { ...p, conn: null, away: true } : p));
+      setSeatAway(peer.id, true);
+      addSystemMessage(`${peer.name} desconectou. Um bot joga no lugar até a volta.`);
+      scheduleSeatExpiry(peer);
+  };
+
+  const scheduleSeatExpiry = (peer: ConnectedPeer) => {
+      awayTimeoutsRef.current[peer.id] = setTimeout(() => {
+          delete awayTimeoutsRef.current[peer.id];
+          updateConnectedPeers(prev => prev.filter(p => p.id !== peer.id));
+          const next = abandonSeat(stateRef.current, peer.id);
+          stateRef.current = next;
+          setGameState(next);
+          addSystemMessage(`${peer.name} não voltou a tempo. O bot fica com o lugar.`);
+      }, RECONNECT_TIMEOUT_MS);
+  };
+
+  // --- Host Migration ---
+  // The host keeps one client (the first one still connected) ready to take over.
+  // Trade-off: taking over needs the whole state, so that one player's device holds every
+  // hand and the RNG state. The game never shows them, but a modified client could read
+  // them; rooms on the game server (no migration) do not have this exposure. Session tokens
+  // only go out as SHA-256 hashes, so the successor cannot reclaim anyone else's seat; where
+  // hashing is unavailable the token is left out and that player can only come back as a spectator.
+  const replicateToSuccessor = async () => {
+      const peers = connectedPeersRef.current;
+      const successor = peers.find(p => p.peerId !== 'HOST' && !p.spectator && p.conn && p.conn.isOpen());
+      if (!successor) return;
+
+      if (successorIdRef.current !== successor.id) {
+          successorIdRef.current = successor.id;
+          broadcast({ type: 'HOST_SUCCESSOR', payload: { playerId: successor.id } });
+      }
+      if (stateRef.current.status === GameStatus.LOBBY) return;
+      // Only sent again once something changed
+      if (lastSnapshotRef.current?.to === successor.id && lastSnapshotRef.current.state === stateRef.current) return;
+      lastSnapshotRef.current = { to: successor.id, state: stateRef.current };
+
+      const state = stateRef.current;
+      const log = matchLogRef.current;
+      const others = await Promise.all(peers.filter(p => p.peerId !== 'HOST').map(async p => {
+          const sessionTokenHash = p.sessionToken ? await hashSessionToken(p.sessionToken) : p.sessionTokenHash;
+          return { id: p.id, name: p.name, avatar: p.avatar, spectator: p.spectator, ...(sessionTokenHash ? { sessionTokenHash } : {}) };
+      }));
+      const snapshot: HostSnapshot = {
+          state,
+          log,
+          hostPlayerId: peers.find(p => p.peerId === 'HOST')?.id || '',
+          peers: others,
+      };
+      if (successor.conn!.isOpen()) successor.conn!.send({ type: 'HOST_SNAPSHOT', payload: snapshot });
+  };
+
+  useEffect(() => {
+      if (networkRole !== 'HOST') return;
+      const timer = setInterval(() => { void replicateToSuccessor(); }, HOST_SNAPSHOT_INTERVAL_MS);
+      return () => clearInterval(timer);
+  }, [networkRole]);
+
+  // Resumes the match from the last snapshot under the same room id. The old host's seat
+  // goes to a bot; the other players reconnect with their session tokens as usual.
+  const promoteToHost = (code: string, snapshot: HostSnapshot) => {
+      const myId = myPlayerIdRef.current;
+      if (transportRef.current) {
+          transportRef.current.destroy();
+          transportRef.current = null;
+      }
+      hostConnRef.current = null;
+      snapshotRef.current = null;
+      successorIdRef.current = null;
+      viewSyncRef.current = createViewSync();
+
+      const others = snapshot.peers.filter(p => p.id !== myId);
+      let state = abandonSeat(snapshot.state, snapshot.hostPlayerId);
+      others.forEach(p => {
+          if (state.players.some(seat => seat.id === p.id && !seat.isBot)) state = setPlayerAway(state, p.id, true);
       });
-      
-      peer.on('error', (err: any) => {
-          setConnectionStatus('Erro: Não foi possível encontrar sala ' + code);
-          setTimeout(() => {
-              cleanupNetwork();
-              setLobbyView('MENU');
-          }, 2000);
+      stateRef.current = state;
+      setGameState(state);
+      setRemoteView(null);
+      matchLogRef.current = snapshot.log;
+
+      const awayPeers: ConnectedPeer[] = others.map(p => ({ ...p, conn: null, away: true }));
+      updateConnectedPeers(() => [{ id: myId, name: playerName + " (Host)", avatar: profile?.avatar, conn: null, peerId: 'HOST' }, ...awayPeers]);
+      awayPeers.forEach(scheduleSeatExpiry);
+
+      updateNetworkRole('HOST');
+      setLobbyView('WAITING_HOST');
+      setConnectionStatus('Assumindo a sala...');
+      clearSession();
+      setSavedSession(null);
+      openHostPeer(code, () => addSystemMessage("O host saiu. Você agora é o host da partida."), 0);
+  };
+
+  // Seats carried over by a host migration only have the token's hash to match against
+  const findReturningPeer = async (token: string | undefined): Promise<ConnectedPeer | undefined> => {
+      if (!token) return undefined;
+      const known = connectedPeersRef.current.find(p => p.sessionToken === token);
+      if (known || !connectedPeersRef.current.some(p => p.sessionTokenHash)) return known;
+      const hash = await hashSessionToken(token);
+      return hash ? connectedPeersRef.current.find(p => p.sessionTokenHash === hash) : undefined;
+  };
+
+  const reclaimSeat = (peer: ConnectedPeer, conn: TransportConnection, sessionToken: string) => {
+      clearTimeout(awayTimeoutsRef.current[peer.id]);
+      delete awayTimeoutsRef.current[peer.id];
+      // A token is only expected back once its seat lost the connection. If the old one is
+      // still open, it is hung up and the takeover counts against the seat.
+      const previous = peer.conn;
+      if (!peer.away && previous && previous !== conn && previous.isOpen()) {
+          connectionsRef.current = connectionsRef.current.filter(c => c !== previous);
+          dropConnection(previous, 'SESSION_TAKEN');
+          recordStrike(peer, 'NOT_YOUR_SEAT');
+      }
+      connectionsRef.current.push(conn);
+
+      const list = lobbyPlayers(connectedPeersRef.current);
+      updateConnectedPeers(prev => prev.map(p => p.id === peer.id ? { ...p, conn, peerId: conn.peerId, sessionToken, away: false } : p));
+      conn.send({ type: 'JOIN_ACCEPT', payload: { playerId: peer.id, sessionToken, players: list, spectator: peer.spectator } });
+
+      if (peer.away) {
+          setSeatAway(peer.id, false);
+          addSystemMessage(`${peer.name} voltou!`);
+      }
+      viewSyncRef.current.forget(peer.id);
+      conn.send(viewSyncRef.current.full(peer.id, viewFor(stateRef.current, peer)));
+  };
+
+  const handleJoinRequest = async (payload: JoinRequest, conn: TransportConnection) => {
+      const returning = await findReturningPeer(payload.sessionToken);
+      if (returning) {
+          reclaimSeat(returning, conn, payload.sessionToken!);
+          return;
+      }
+      const newPlayerId = uuid();
+      const name = cleanPlayerName(payload.name);
+      if (bannedRef.current.has(name.toLowerCase()) || bannedRef.current.has(payload.sessionToken || '')) {
+          dropConnection(conn, 'BANNED');
+          return;
+      }
+      // Once the cards are dealt there is no seat left to give: late joiners watch
+      const spectator = !!payload.spectate || stateRef.current.status !== GameStatus.LOBBY;
+      if (!spectator && connectedPeersRef.current.filter(p => !p.spectator).length >= maxPlayersRef.current) {
+          dropConnection(conn, 'ROOM_FULL');
+          return;
+      }
+      const newPeer: ConnectedPeer = { 
+          id: newPlayerId, 
+          name, 
+          avatar: payload.avatar,
+          conn: conn,
+          peerId: conn.peerId,
+          sessionToken: createSessionToken(),
+          ...(spectator ? { spectator } : {})
+      };
+      connectionsRef.current.push(conn);
+      updateConnectedPeers(prev => {
+          if (prev.some(p => p.peerId === conn.peerId || p.conn === conn)) return prev;
+          const newList = [...prev, newPeer];
+          const playerListForClient = lobbyPlayers(newList);
+          broadcastLobby(newList);
+          broadcast({ type: 'CHAT', payload: { id: uuid(), senderId: 'system', senderName: 'Sistema', text: spectator ? `${name} está assistindo.` : `${name} entrou!`, timestamp: Date.now(), isSystem: true } });
+          if (conn.isOpen()) {
+              conn.send({ type: 'JOIN_ACCEPT', payload: { playerId: newPlayerId, sessionToken: newPeer.sessionToken, players: playerListForClient, spectator } });
+              if (stateRef.current.status !== GameStatus.LOBBY) conn.send(viewSyncRef.current.full(newPlayerId, viewFor(stateRef.current, newPeer)));
+          }
+          return newList;
       });
   };
 
+  const viewFor = (state: GameState, peer: ConnectedPeer): PlayerView =>
+      peer.spectator ? getSpectatorView(state, revealHandsRef.current) : getPlayerView(state, peer.id);
+
   // 3. Message Handling
-  const handleNetworkMessage = (packet: NetworkPacket, conn?: any) => {
+  // Everything that arrives is validated first (services/protocol); rejects are logged and answered
+  const handleNetworkMessage = (raw: unknown, conn: TransportConnection) => {
       const currentRole = networkRoleRef.current;
+      if (currentRole === 'OFFLINE') return;
+      const packet = receivePacket(raw, currentRole === 'HOST' ? 'client' : 'host', conn.peerId, reply => conn.send(reply));
+      if (!packet) return;
 
       try {
           if (currentRole === 'HOST') {
+              // Past the join, packets count only from connections we know
+              const sender = connectedPeersRef.current.find(p => p.conn === conn);
+              if (!sender && packet.type !== 'JOIN_REQUEST') {
+                  if (packet.type !== 'ERROR' && packet.type !== 'VERSION_MISMATCH') conn.send(protocolError('UNEXPECTED_PACKET', 'Entre na sala primeiro'));
+                  return;
+              }
               switch (packet.type) {
                   case 'JOIN_REQUEST':
-                      const newPlayerId = uuid();
-                      const newPeer = { 
-                          id: newPlayerId, 
-                          name: packet.payload.name, 
-                          conn: conn,
-                          peerId: conn.peer 
-                      };
-                      connectionsRef.current.push(conn);
+                      handleJoinRequest(packet.payload, conn).catch(error => console.error("Error handling join:", error));
+                      break;
+                  case 'PLAYER_ACTION': {
+                      // A peer only ever acts for its own seat, and only within the rules
+                      if (!guardRef.current.allowAction(sender!.id)) break;
+                      const reason = guardRef.current.screenAction(sender!.id, packet.payload)
+                          ?? dispatchAction(packet.payload);
+                      if (reason) rejectPeerAction(sender!, packet.payload.actionType, reason);
+                      else timeoutStreaksRef.current[sender!.id] = 0;
+                      break;
+                  }
+                  case 'RETURN_TO_SEAT':
+                      returnToSeat(sender!.id);
+                      break;
+                  case 'SET_READY': {
+                      const { ready } = packet.payload;
                       updateConnectedPeers(prev => {
-                          if (prev.some(p => p.peerId === conn.peer || p.conn === conn)) return prev;
-                          const newList = [...prev, newPeer];
-                          const playerListForClient = newList.map(p => ({name: p.name}));
-                          broadcast({ type: 'LOBBY_UPDATE', payload: { players: playerListForClient } });
-                          broadcast({ type: 'CHAT', payload: { id: uuid(), text: `${packet.payload.name} entrou!`, isSystem: true } });
-                          if (conn && conn.open) conn.send({ type: 'JOIN_ACCEPT', payload: { playerId: newPlayerId, players: playerListForClient } });
-                          return newList;
+                          const next = prev.map(p => p.id === sender!.id ? { ...p, ready } : p);
+                          broadcastLobby(next);
+                          return next;
                       });
                       break;
-                  case 'PLAYER_ACTION': handleRemoteAction(packet.payload); break;
-                  case 'CHAT': 
-                      setChatMessages(prev => {
-                          if (!isChatOpen) setUnreadMessages(c => c + 1);
-                          return [...prev, packet.payload]
+                  }
+                  case 'RESYNC_REQUEST':
+                      conn.send(viewSyncRef.current.full(sender!.id, viewFor(stateRef.current, sender!)));
+                      break;
+                  case 'CHAT': {
+                      if (!guardRef.current.allowChat(sender!.id)) break;
+                      // Only the text comes from the sender; who said it is ours to fill in.
+                      // The sender already shows its own message.
+                      const msg: ChatMessage = { id: uuid(), senderId: sender!.id, senderName: sender!.name, text: packet.payload.text, timestamp: Date.now(), ...(sender!.spectator ? { isSpectator: true } : {}) };
+                      setChatMessages(prev => [...prev, msg]);
+                      connectedPeersRef.current.forEach(p => {
+                          if (p.conn && p.conn !== conn && p.conn.isOpen()) p.conn.send({ type: 'CHAT', payload: msg });
                       });
-                      broadcast(packet); 
+                      break;
+                  }
+                  case 'ERROR':
+                  case 'VERSION_MISMATCH':
+                      console.warn(`${sender!.name} reported:`, packet.payload);
                       break;
               }
           } else if (currentRole === 'CLIENT') {
               switch (packet.type) {
                   case 'JOIN_ACCEPT':
                       setMyPlayerId(packet.payload.playerId);
+                      setIsRoomOwner(!!packet.payload.isOwner);
+                      setIsSpectator(!!packet.payload.spectator);
+                      // A (re)joined host numbers its patches afresh
+                      viewSeqRef.current = 0;
+                      resyncPendingRef.current = false;
                       setConnectionStatus('Entrou na Sala!');
-                      updateConnectedPeers(() => packet.payload.players.map((p: any, i: number) => ({ id: `p-${i}`, name: p.name, conn: null })));
+                      if (packet.payload.sessionToken) {
+                          const session = { roomCode: roomCodeRef.current, playerId: packet.payload.playerId, token: packet.payload.sessionToken };
+                          saveSession(session);
+                          setSavedSession(session);
+                      }
+                      updateConnectedPeers(() => fromLobbyPlayers(packet.payload.players));
                       addSystemMessage("Entrou na sala! Aguardando o host...");
                       break;
                   case 'LOBBY_UPDATE':
-                      updateConnectedPeers(() => packet.payload.players.map((p: any, i: number) => ({ id: `p-${i}`, name: p.name, conn: null })));
+                      // Only the game server hands room ownership around
+                      if (packet.payload.ownerId !== undefined) setIsRoomOwner(packet.payload.ownerId === myPlayerIdRef.current);
+                      if (packet.payload.maxPlayers !== undefined) setMaxPlayers(packet.payload.maxPlayers);
+                      updateConnectedPeers(() => fromLobbyPlayers(packet.payload.players));
+                      break;
+                  case 'REMOVED':
+                      alert(REMOVAL_LABELS[packet.payload.reason] ?? 'Você saiu da sala.');
+                      // A taken-over session now belongs to the other connection (maybe another tab on this storage)
+                      if (packet.payload.reason !== 'SESSION_TAKEN') {
+                          clearSession();
+                          setSavedSession(null);
+                      }
+                      cleanupNetwork();
+                      setLobbyView('MENU');
                       break;
                   case 'GAME_STATE':
-                      setGameState(packet.payload);
-                      if (packet.payload.status === GameStatus.LOBBY) setLobbyView('WAITING_CLIENT');
+                      viewSeqRef.current = packet.payload.seq;
+                      resyncPendingRef.current = false;
+                      showRemoteView(packet.payload.view);
+                      break;
+                  case 'STATE_PATCH': {
+                      const { seq, patch } = packet.payload;
+                      const step = classifyPatch(viewSeqRef.current, seq, !!remoteViewRef.current);
+                      if (step === 'skip') break; // Already applied
+                      if (step === 'resync') {
+                          // Missed one: ask once for the full view and drop patches until it arrives
+                          if (!resyncPendingRef.current) {
+                              resyncPendingRef.current = true;
+                              conn.send({ type: 'RESYNC_REQUEST', payload: { lastSeq: viewSeqRef.current } });
+                          }
+                          break;
+                      }
+                      viewSeqRef.current = seq;
+                      showRemoteView(applyViewPatch(remoteViewRef.current, patch));
                       break;
+                  }
                   case 'CHAT': 
-                      setChatMessages(prev => {
-                          if (!isChatOpen) setUnreadMessages(c => c + 1);
-                          return [...prev, packet.payload]
-                      });
+                      setChatMessages(prev => [...prev, packet.payload]);
+                      break;
+                  case 'HOST_SUCCESSOR':
+                      successorIdRef.current = packet.payload.playerId;
+                      break;
+                  case 'ACTION_REJECTED':
+                      setLastAction(`Jogada recusada: ${REJECTION_LABELS[packet.payload.reason] ?? packet.payload.reason}`);
+                      break;
+                  case 'HOST_SNAPSHOT':
+                      // Becomes the game if we take over, so only the designated successor keeps it, and only whole
+                      if (successorIdRef.current === myPlayerIdRef.current && isConsistentState(packet.payload.state)) snapshotRef.current = packet.payload;
+                      else console.warn('Ignoring a host snapshot');
+                      break;
+                  case 'ERROR':
+                      console.warn('Host rejected a packet:', packet.payload);
+                      break;
+                  case 'VERSION_MISMATCH':
+                      alert(`Versão incompatível com a sala (sala: ${packet.payload.expected}, sua: ${packet.payload.received}). Atualize a página.`);
+                      cleanupNetwork();
+                      setLobbyView('MENU');
                       break;
               }
           }
@@ -280,230 +710,294 @@ const App: React.FC = () => {
       }
   };
 
-  const broadcast = (packet: NetworkPacket) => {
+  const broadcastLobby = (peers: ConnectedPeer[]) =>
+      broadcast({ type: 'LOBBY_UPDATE', payload: { players: lobbyPlayers(peers), maxPlayers: maxPlayersRef.current } });
+
+  // Says why, then hangs up (after a moment, so the message is not cut off)
+  const dropConnection = (conn: TransportConnection, reason: RemovalReason) => {
+      if (conn.isOpen()) conn.send({ type: 'REMOVED', payload: { reason } });
+      setTimeout(() => conn.close(), 300);
+  };
+
+  // --- Lobby Management (Host) ---
+  const kickPlayer = (playerId: string, ban: boolean) => {
+      if (sendToServer({ type: 'KICK_PLAYER', payload: { playerId, ban } })) return;
+      const peer = connectedPeersRef.current.find(p => p.id === playerId);
+      if (!peer || peer.peerId === 'HOST' || stateRef.current.status !== GameStatus.LOBBY) return;
+      if (ban) {
+          bannedRef.current.add(peer.name.toLowerCase());
+          if (peer.sessionToken) bannedRef.current.add(peer.sessionToken);
+      }
+      // Gone from the list first, so the closing connection is not reported as a drop
+      updateConnectedPeers(prev => {
+          const next = prev.filter(p => p.id !== playerId);
+          broadcastLobby(next);
+          return next;
+      });
+      connectionsRef.current = connectionsRef.current.filter(c => c !== peer.conn);
+      if (peer.conn) dropConnection(peer.conn, ban ? 'BANNED' : 'KICKED');
+      addSystemMessage(ban ? `${peer.name} foi banido da sala.` : `${peer.name} foi removido da sala.`);
+  };
+
+  const reorderSeats = (order: string[]) => {
+      if (sendToServer({ type: 'REORDER_SEATS', payload: { order } })) return;
+      if (networkRoleRef.current !== 'HOST') return;
+      const rank = (id: string) => order.includes(id) ? order.indexOf(id) : order.length;
+      updateConnectedPeers(prev => {
+          const next = [...prev].sort((a, b) => rank(a.id) - rank(b.id));
+          broadcastLobby(next);
+          return next;
+      });
+  };
+
+  const changeMaxPlayers = (max: number) => {
+      if (sendToServer({ type: 'ROOM_SETTINGS', payload: { maxPlayers: max } })) return;
+      setMaxPlayers(max);
+      maxPlayersRef.current = max;
+      if (networkRoleRef.current === 'HOST') broadcastLobby(connectedPeersRef.current);
+  };
+
+  const toggleReady = () => {
+      const me = connectedPeersRef.current.find(p => p.id === myPlayerIdRef.current);
+      hostConnRef.current?.send({ type: 'SET_READY', payload: { ready: !me?.ready } });
+  };
+
+  // Tells the sender why, and flags it in the lobby once it keeps sending what no honest client would
+  const rejectPeerAction = (peer: ConnectedPeer, actionType: ActionRejected['actionType'], reason: ActionRejection) => {
+      if (peer.conn?.isOpen()) peer.conn.send({ type: 'ACTION_REJECTED', payload: { actionType, reason } });
+      recordStrike(peer, reason);
+  };
+
+  const recordStrike = (peer: ConnectedPeer, reason: ActionRejection) => {
+      if (!guardRef.current.strike(peer.id, reason)) return;
+      updateConnectedPeers(prev => {
+          const next = prev.map(p => p.id === peer.id ? { ...p, flagged: true } : p);
+          broadcastLobby(next);
+          return next;
+      });
+      addSystemMessage(`⚠ ${peer.name} foi marcado como suspeito.`);
+  };
+
+  const showRemoteView = (view: PlayerView) => {
+      remoteViewRef.current = view;
+      setRemoteView(view);
+      // Nothing left to resume once the match is over
+      if (view.status === GameStatus.GAME_OVER) {
+          clearSession();
+          setSavedSession(null);
+      }
+      if (view.status === GameStatus.LOBBY) setLobbyView('WAITING_CLIENT');
+  };
+
+  const broadcast = (packet: NetworkMessage) => {
       const peers = connectedPeersRef.current;
       peers.forEach(p => {
-          if (p.conn && p.conn.open) p.conn.send(packet);
+          if (p.conn && p.conn.isOpen()) p.conn.send(packet);
+      });
+  };
+
+  // Each peer only receives its own redacted view of the table, as a patch on the last one
+  const broadcastGameState = (state: GameState) => {
+      connectedPeersRef.current.forEach(p => {
+          if (!p.conn || !p.conn.isOpen()) return;
+          const message = viewSyncRef.current.update(p.id, viewFor(state, p));
+          if (message) p.conn.send(message);
       });
   };
 
   // --- Game Control (Host Only) ---
   useEffect(() => {
       if (networkRoleRef.current === 'HOST' && gameState.status !== GameStatus.LOBBY) {
-          broadcast({ type: 'GAME_STATE', payload: gameState });
+          broadcastGameState(gameState);
       }
       if (networkRoleRef.current === 'HOST' && gameState.status === GameStatus.LOBBY && lobbyView === 'WAITING_HOST') {
-          broadcast({ type: 'GAME_STATE', payload: gameState });
+          broadcastGameState(gameState);
       }
   }, [gameState]);
 
+  // Match controls of a room hosted by the game server are requests to the server
+  const sendToServer = (packet: NetworkMessage) => {
+      if (networkRoleRef.current !== 'CLIENT' || !isRoomOwner || !hostConnRef.current) return false;
+      hostConnRef.current.send(packet);
+      return true;
+  };
+
   const resetGame = () => {
-      const newState: GameState = {
-          status: GameStatus.LOBBY,
-          players: [],
-          currentPlayerIndex: 0,
-          direction: 1,
-          drawPile: [],
-          discardPile: [],
-          currentColor: 'red',
-          winner: null,
-          turnCount: 0,
-      };
-      setGameState(newState);
-      setLobbyView('WAITING_HOST');
+      if (sendToServer({ type: 'RESET_GAME', payload: null })) return;
+      // Back in the lobby everyone confirms again for the next match
+      if (networkRoleRef.current === 'HOST') {
+          updateConnectedPeers(prev => {
+              const next = prev.map(p => ({ ...p, ready: false }));
+              broadcastLobby(next);
+              return next;
+          });
+      }
+      setGameState(createLobbyState());
+      setLobbyView(networkRoleRef.current === 'OFFLINE' ? 'LOCAL' : 'WAITING_HOST');
+      setIsHotSeat(false);
+      setHandoffTo(null);
       setLastAction('');
   };
 
-  const startGameHost = (mode: GameMode) => {
-      if (networkRoleRef.current !== 'HOST' && networkRoleRef.current !== 'OFFLINE') return;
-      const deck = createDeck();
-      const currentPeers = connectedPeersRef.current;
-      
-      const hostPeer = currentPeers.find(p => p.conn === null); 
-      const hostPlayer: Player = {
-          id: myPlayerId || (hostPeer ? hostPeer.id : 'host'),
-          name: playerName,
-          avatar: AVATARS[0],
-          isBot: false,
-          hand: deck.splice(0, 7),
-          isUno: false,
-          isHost: true
-      };
-      
-      const players: Player[] = [hostPlayer];
-      const realClients = currentPeers.filter(p => p.conn !== null);
-      realClients.forEach((client, i) => {
-          players.push({
-              id: client.id,
-              name: client.name,
-              avatar: AVATARS[(i + 1) % AVATARS.length], 
-              isBot: false,
-              hand: deck.splice(0, 7),
-              isUno: false
-          });
-      });
+  const startGameHost = () => {
+      // An explicit seed replays a known match; otherwise the engine draws a fresh one
+      const seed = seedInput.trim() === '' ? undefined : Number(seedInput) >>> 0;
+      const request: StartGameRequest = { targetScore, rules, seed, turnTimeLimit, revealHands, teams, deck, botDifficulties };
+      if (sendToServer({ type: 'START_GAME', payload: request })) return;
 
-      let totalSlots = 4;
-      if (mode === '1v1') totalSlots = 2;
-      if (mode === '1v4') totalSlots = 5;
-
-      const neededBots = Math.max(0, totalSlots - players.length);
-      for (let i = 0; i < neededBots; i++) {
-           players.push({
-              id: `bot-${i}`,
-              name: BOT_NAMES[i % BOT_NAMES.length],
-              avatar: AVATARS[players.length + i],
-              isBot: true,
-              hand: deck.splice(0, 7),
-              isUno: false
-          });
+      if (networkRoleRef.current !== 'HOST' && networkRoleRef.current !== 'OFFLINE') return;
+      const isOffline = networkRoleRef.current === 'OFFLINE';
+      // Seats follow the lobby order, wherever the host was dragged to
+      const seated = connectedPeersRef.current.filter(p => !p.spectator && (p.peerId === 'HOST' || p.conn !== null));
+      if (!seated.every(p => p.peerId === 'HOST' || p.ready)) return;
+      const humans = isOffline
+          ? [playerName, ...localPlayers].map((name, i) => ({ id: i === 0 ? 'host' : `local-${i}`, name: cleanPlayerName(name) || `Jogador ${i + 1}`, isHost: i === 0, avatar: i === 0 ? profile?.avatar : undefined }))
+          : seated.map(p => p.peerId === 'HOST' ? { id: p.id, name: playerName, isHost: true, avatar: profile?.avatar } : { id: p.id, name: p.name, avatar: p.avatar });
+      if (!isOffline && !seated.some(p => p.peerId === 'HOST')) humans.unshift({ id: myPlayerId || 'host', name: playerName, isHost: true, avatar: profile?.avatar });
+      const seatCount = Math.min(MAX_SEATS, humans.length + botDifficulties.length);
+      if (seatCount < MIN_SEATS || (teams && seatCount !== TEAM_SEATS)) return;
+      const players = createSeats(humans, seatCount, botDifficulties);
+
+      const initial = dealGame(players, { targetScore, rules, seed, turnTimeLimit, teams, deck });
+      matchLogRef.current = createMatchLog(players, { targetScore, rules, seed: initial.seed, turnTimeLimit, teams, deck });
+      timeoutStreaksRef.current = {};
+      setGameState(initial);
+      if (isOffline) {
+          setMyPlayerId('host');
+          setIsHotSeat(humans.length > 1);
+          setHandoffTo(null);
       }
+  };
 
-      const firstCard = deck.shift()!;
-      const initialColor = firstCard.color === 'black' ? 'red' : firstCard.color;
-
-      const newState: GameState = {
-          status: GameStatus.PLAYING,
-          players,
-          currentPlayerIndex: 0,
-          direction: 1,
-          drawPile: deck,
-          discardPile: [firstCard],
-          currentColor: initialColor,
-          winner: null,
-          turnCount: 1
-      };
-
-      setGameState(newState);
-      if (networkRoleRef.current === 'OFFLINE') setMyPlayerId('host');
+  const nextRound = () => {
+      if (sendToServer({ type: 'NEXT_ROUND', payload: null })) return;
+      if (networkRoleRef.current === 'CLIENT') return;
+      const state = startNextRound(stateRef.current);
+      if (state === stateRef.current) return;
+      if (matchLogRef.current) matchLogRef.current = appendNextRound(matchLogRef.current);
+      setGameState(state);
+      setLastAction('');
   };
 
   // --- Core Game Logic ---
-  const handleRemoteAction = (action: PlayerAction) => {
-      const playerIdx = stateRef.current.players.findIndex(p => p.id === action.playerId);
-      if (playerIdx === -1) return;
-      if (playerIdx !== stateRef.current.currentPlayerIndex) return; 
-
-      if (action.actionType === 'DRAW_CARD') {
-          performDraw(playerIdx, 1);
-          passTurn(playerIdx); 
-      } else if (action.actionType === 'PLAY_CARD' && action.cardId) {
-          const player = stateRef.current.players[playerIdx];
-          const card = player.hand.find(c => c.id === action.cardId);
-          if (card) {
-              performPlayCard(playerIdx, card, action.wildColor);
-          }
-      } else if (action.actionType === 'CALL_UNO') {
-          addSystemMessage(`${stateRef.current.players[playerIdx].name} gritou UNO!`);
+  // The rules live in services/gameEngine; the host only dispatches and reacts to events.
+  // Returns why the engine refused the action, or null once it is applied.
+  const dispatchAction = (action: PlayerAction): RejectReason | null => {
+      const { state, events } = applyAction(stateRef.current, action);
+      if (state === stateRef.current) {
+          const rejected = events.find(e => e.type === 'ACTION_REJECTED');
+          return rejected?.type === 'ACTION_REJECTED' ? rejected.reason : null;
       }
+      if (matchLogRef.current) matchLogRef.current = appendAction(matchLogRef.current, action, events);
+      stateRef.current = state;
+      setGameState(state);
+      announceEvents(events, state);
+      return null;
   };
 
-  const getNextPlayerIndex = (current: number, direction: 1 | -1, numPlayers: number) => {
-    return (current + direction + numPlayers) % numPlayers;
+  const botSay = (player: Player, event: Parameters<typeof generateBotChat>[1], fallback: string, state: GameState) => {
+      generateBotChat(player.name, event, fallback, botRandom(state, player.id, 'chat')).then(chat => addChatMessage(player.id, player.name, chat));
   };
 
-  const performDraw = (playerIndex: number, count: number) => {
-      setGameState(prev => {
-          const newDrawPile = [...prev.drawPile];
-          const newDiscardPile = [...prev.discardPile];
-          const newPlayers = [...prev.players];
-          const player = { ...newPlayers[playerIndex] };
-
-          if (newDrawPile.length < count) {
-              if (newDiscardPile.length > 0) {
-                   const discardTop = newDiscardPile.pop()!;
-                   const recycled = shuffleDeck(newDiscardPile);
-                   newDrawPile.unshift(...recycled);
-                   newDiscardPile.length = 0;
-                   newDiscardPile.push(discardTop);
-              } else {
-                  return prev; 
+  const announceEvents = (events: GameEvent[], state: GameState) => {
+      const findPlayer = (id: string) => state.players.find(p => p.id === id);
+
+      events.forEach(event => {
+          switch (event.type) {
+              case 'CARD_PLAYED': {
+                  const player = findPlayer(event.playerId);
+                  if (!player) break;
+                  setLastAction(`${player.name} jogou ${event.card.type === 'number' ? event.card.value : CARD_DEFINITIONS[event.card.type].label}`);
+                  if (player.isBot && event.card.type === 'skip') botSay(player, 'play_skip', 'Bloqueado!', state);
+                  if (player.isBot && event.card.type === 'wild4') botSay(player, 'play_wild4', '+4 pra você!', state);
+                  break;
+              }
+              case 'CARDS_DRAWN': {
+                  const player = findPlayer(event.playerId);
+                  if (player && event.reason === 'DRAW') setLastAction(`${player.name} comprou.`);
+                  break;
+              }
+              case 'UNO_CALLED': {
+                  const player = findPlayer(event.playerId);
+                  if (player) addSystemMessage(`${player.name} gritou UNO!`);
+                  break;
+              }
+              case 'JUMPED_IN': {
+                  const player = findPlayer(event.playerId);
+                  if (player) addSystemMessage(`${player.name} entrou de carona!`);
+                  break;
+              }
+              case 'DRAW_STACKED': {
+                  const player = findPlayer(event.playerId);
+                  if (player) setLastAction(`${player.name} acumulou! +${event.total}`);
+                  break;
+              }
+              case 'HANDS_SWAPPED': {
+                  const player = findPlayer(event.playerId);
+                  const target = findPlayer(event.targetPlayerId);
+                  if (player && target) addSystemMessage(`${player.name} trocou de mão com ${target.name}!`);
+                  break;
+              }
+              case 'HANDS_ROTATED':
+                  addSystemMessage('Todas as mãos giraram!');
+                  break;
+              case 'ALL_SKIPPED': {
+                  const player = findPlayer(event.playerId);
+                  if (player) setLastAction(`${player.name} pulou todo mundo e joga de novo!`);
+                  break;
+              }
+              case 'COLOR_DISCARDED': {
+                  const player = findPlayer(event.playerId);
+                  if (player) addSystemMessage(`${player.name} descartou mais ${event.count} carta(s) ${COLOR_LABELS[event.color].toLowerCase()}!`);
+                  break;
+              }
+              case 'TURN_PASSED': {
+                  const player = findPlayer(event.playerId);
+                  if (player) setLastAction(`${player.name} passou a vez.`);
+                  break;
+              }
+              case 'WILD4_CHALLENGED': {
+                  const player = findPlayer(event.playerId);
+                  const target = findPlayer(event.targetPlayerId);
+                  if (!player || !target) break;
+                  addSystemMessage(event.success
+                      ? `${player.name} desafiou o +4 e acertou! ${target.name} compra ${event.penalty}.`
+                      : `${player.name} desafiou o +4 e errou! Compra ${event.penalty}.`);
+                  break;
+              }
+              case 'UNO_CAUGHT': {
+                  const player = findPlayer(event.playerId);
+                  const catcher = findPlayer(event.catcherId);
+                  if (player && catcher) addSystemMessage(`${catcher.name} pegou ${player.name} sem gritar UNO! +2 cartas`);
+                  break;
+              }
+              case 'PLAYER_ELIMINATED': {
+                  const player = findPlayer(event.playerId);
+                  if (player) addSystemMessage(`${player.name} chegou a ${event.handCount} cartas e foi eliminado da rodada!`);
+                  break;
+              }
+              case 'CARD_GIVEN': {
+                  const player = findPlayer(event.playerId);
+                  const partner = findPlayer(event.targetPlayerId);
+                  if (player && partner) setLastAction(`${player.name} passou uma carta para ${partner.name}.`);
+                  break;
+              }
+              case 'ROUND_WON': {
+                  const player = findPlayer(event.playerId);
+                  if (player) addSystemMessage(`${player.name} venceu a rodada! +${event.points} pontos`);
+                  break;
+              }
+              case 'GAME_WON': {
+                  const player = findPlayer(event.playerId);
+                  if (player?.isBot) botSay(player, 'win', 'Ganhei!', state);
+                  break;
               }
           }
-          const drawn = newDrawPile.splice(0, count);
-          player.hand = [...player.hand, ...drawn];
-          player.isUno = false;
-          newPlayers[playerIndex] = player;
-          
-          return { ...prev, drawPile: newDrawPile, discardPile: newDiscardPile, players: newPlayers };
-      });
-  };
-
-  const passTurn = (currentIndex: number) => {
-      setGameState(prev => ({
-          ...prev,
-          currentPlayerIndex: getNextPlayerIndex(currentIndex, prev.direction, prev.players.length),
-          turnCount: prev.turnCount + 1
-      }));
-  };
-
-  const performPlayCard = async (playerIndex: number, card: CardModel, selectedWildColor?: CardColor) => {
-      let colorToSet = card.color;
-      if (card.color === 'black' && selectedWildColor) colorToSet = selectedWildColor;
-
-      setGameState(prev => {
-          const newPlayers = [...prev.players];
-          const p = { ...newPlayers[playerIndex] };
-          p.hand = p.hand.filter(c => c.id !== card.id);
-          newPlayers[playerIndex] = p;
-          
-          return {
-              ...prev,
-              discardPile: [...prev.discardPile, card],
-              currentColor: colorToSet,
-              players: newPlayers
-          };
-      });
-
-      const player = stateRef.current.players[playerIndex];
-      
-      if (player.hand.length === 1) { 
-          const winner = { ...player, hand: [] }; 
-          const winState = { ...stateRef.current, status: GameStatus.GAME_OVER, winner };
-          setGameState(winState);
-          if(player.isBot) {
-               const chat = await generateBotChat(player.name, 'win', 'Ganhei!');
-               addChatMessage(player.id, player.name, chat);
-          }
-          return;
-      }
-
-      let skipTurn = false;
-      let nextDirection = stateRef.current.direction;
-
-      if (card.type === 'reverse') {
-          nextDirection = (nextDirection * -1) as 1 | -1;
-          setGameState(prev => ({ ...prev, direction: nextDirection }));
-          if (stateRef.current.players.length === 2) skipTurn = true;
-      } else if (card.type === 'skip') {
-          skipTurn = true;
-          if (player.isBot) {
-              const chat = await generateBotChat(player.name, 'play_skip', 'Bloqueado!');
-              addChatMessage(player.id, player.name, chat);
-          }
-      } else if (card.type === 'draw2') {
-          const victim = getNextPlayerIndex(playerIndex, nextDirection, stateRef.current.players.length);
-          performDraw(victim, 2);
-          skipTurn = true;
-      } else if (card.type === 'wild4') {
-          const victim = getNextPlayerIndex(playerIndex, nextDirection, stateRef.current.players.length);
-          performDraw(victim, 4);
-          skipTurn = true;
-          if (player.isBot) {
-              const chat = await generateBotChat(player.name, 'play_wild4', '+4 pra você!');
-              addChatMessage(player.id, player.name, chat);
-          }
-      }
-
-      setGameState(prev => {
-          let nextIndex = getNextPlayerIndex(playerIndex, nextDirection, prev.players.length);
-          if (skipTurn) nextIndex = getNextPlayerIndex(nextIndex, nextDirection, prev.players.length);
-          const newState = { ...prev, currentPlayerIndex: nextIndex, turnCount: prev.turnCount + 1 };
-          setLastAction(`${player.name} jogou ${card.type === 'number' ? card.value : card.type}`);
-          return newState;
       });
   };
 
+  // A seat can change hands mid-turn when its player drops or comes back
+  const currentIsBot = gameState.players[gameState.currentPlayerIndex]?.isBot;
   const processBotTurn = useCallback(async () => {
     if (gameState.status !== GameStatus.PLAYING) return;
     if (networkRoleRef.current === 'CLIENT') return; 
@@ -512,24 +1006,23 @@ const App: React.FC = () => {
     const bot = gameState.players[botIndex];
     if (!bot || !bot.isBot) return;
 
-    await new Promise(r => setTimeout(r, 1500));
-    if (stateRef.current.status !== GameStatus.PLAYING) return;
-
-    const top = stateRef.current.discardPile[stateRef.current.discardPile.length - 1];
-    const col = stateRef.current.currentColor;
-
-    const bestMove = findBestMove(bot.hand, top, col);
-    if (bestMove) {
-        let wildColor: CardColor | undefined;
-        if (bestMove.color === 'black') wildColor = pickBestColor(bot.hand);
-        await performPlayCard(botIndex, bestMove, wildColor);
-        if (bot.hand.length === 2 && Math.random() > 0.3) addSystemMessage(`${bot.name} gritou UNO!`);
-    } else {
-        performDraw(botIndex, 1);
-        passTurn(botIndex);
-        setLastAction(`${bot.name} comprou.`);
-    }
-  }, [gameState.currentPlayerIndex, gameState.status]);
+    // Someone may have jumped in while the bot was "thinking"
+    // (or its player reconnected and took the seat back)
+    const isStale = (s: GameState) => s.status !== GameStatus.PLAYING || s.currentPlayerIndex !== botIndex || s.turnCount !== gameState.turnCount || !s.players[botIndex]?.isBot;
+    // Expert bots spend part of the pause actually searching
+    const isExpert = bot.difficulty === 'expert';
+    await new Promise(r => setTimeout(r, isExpert ? BOT_TURN_DELAY_MS - BOT_EXPERT_TIME_BUDGET_MS : BOT_TURN_DELAY_MS));
+    const state = stateRef.current;
+    if (isStale(state)) return;
+
+    const random = botRandom(state, bot.id, 'turn');
+    const move = isExpert
+        ? await requestExpertMove(state, botIndex, deriveSeed(state.seed, state.turnCount, bot.id, 'expert'))
+        : getBotStrategy(state.players[botIndex].difficulty).chooseMove(state, botIndex, random);
+    if (isStale(stateRef.current)) return;
+
+    planBotTurn(state, botIndex, move, random).forEach(dispatchAction);
+  }, [gameState.currentPlayerIndex, gameState.status, gameState.turnCount, gameState.drawnCardId, gameState.pendingWild4, currentIsBot]);
 
   useEffect(() => {
       if (gameState.status === GameStatus.PLAYING && (networkRole === 'HOST' || networkRole === 'OFFLINE')) {
@@ -540,18 +1033,99 @@ const App: React.FC = () => {
           }
       }
       return () => { if (botTimeoutRef.current) clearTimeout(botTimeoutRef.current); }
-  }, [gameState.currentPlayerIndex, gameState.status, networkRole, processBotTurn]);
+  }, [gameState.currentPlayerIndex, gameState.status, gameState.turnCount, gameState.drawnCardId, gameState.pendingWild4, currentIsBot, networkRole, processBotTurn]);
+
+  // Turn clock: when it runs out the host plays the turn for the human, and after
+  // TURN_TIMEOUT_AFK_LIMIT misses in a row a bot takes the seat until they return
+  useEffect(() => {
+      clearTimeout(turnTimerRef.current);
+      if (gameState.status !== GameStatus.PLAYING || gameState.turnTimeLimit <= 0 || currentIsBot) return;
+      if (networkRole !== 'HOST' && networkRole !== 'OFFLINE') return;
+      turnTimerRef.current = setTimeout(onTurnTimeout, gameState.turnTimeLimit * 1000);
+      return () => clearTimeout(turnTimerRef.current);
+  }, [gameState.status, gameState.turnCount, gameState.currentPlayerIndex, gameState.turnTimeLimit, currentIsBot, networkRole]);
+
+  const onTurnTimeout = () => {
+      const state = stateRef.current;
+      const player = state.players[state.currentPlayerIndex];
+      if (state.status !== GameStatus.PLAYING || !player || player.isBot) return;
+      planTimedOutTurn(state, state.currentPlayerIndex).forEach(dispatchAction);
+
+      const streak = (timeoutStreaksRef.current[player.id] ?? 0) + 1;
+      timeoutStreaksRef.current[player.id] = streak;
+      if (streak < TURN_TIMEOUT_AFK_LIMIT) {
+          addSystemMessage(`${player.name} ficou sem tempo. Jogada automática.`);
+          return;
+      }
+      timeoutStreaksRef.current[player.id] = 0;
+      setSeatAway(player.id, true);
+      addSystemMessage(`${player.name} está ausente. Um bot joga no lugar até a volta.`);
+  };
+
+  // A player marked away for timing out takes the seat back (a dropped one does by reconnecting)
+  const returnToSeat = (playerId: string) => {
+      const player = stateRef.current.players.find(p => p.id === playerId);
+      if (!player?.isAway || stateRef.current.status === GameStatus.LOBBY) return;
+      setSeatAway(playerId, false);
+      addSystemMessage(`${player.name} voltou!`);
+  };
+
+  const onReturnToSeat = () => {
+      if (networkRoleRef.current === 'CLIENT') hostConnRef.current?.send({ type: 'RETURN_TO_SEAT', payload: null });
+      else returnToSeat(myPlayerId);
+  };
+
+  // Pass-and-play: when the turn reaches a human other than the one holding the device,
+  // the table is covered until they take it. Bot turns in between leave it with the last human.
+  useEffect(() => {
+      if (!isHotSeat || gameState.status !== GameStatus.PLAYING) return;
+      const current = gameState.players[gameState.currentPlayerIndex];
+      if (current && !current.isBot && current.id !== myPlayerId) setHandoffTo(current.id);
+  }, [isHotSeat, gameState.status, gameState.currentPlayerIndex, gameState.turnCount, currentIsBot, myPlayerId]);
+
+  const takeDevice = () => {
+      if (handoffTo) setMyPlayerId(handoffTo);
+      setHandoffTo(null);
+  };
+
+  // Bots get a reaction window to catch whoever forgot to call UNO
+  useEffect(() => {
+      unoCatchTimeoutsRef.current.forEach(clearTimeout);
+      unoCatchTimeoutsRef.current = [];
+      if (networkRoleRef.current === 'CLIENT') return;
+      unoCatchTimeoutsRef.current = planUnoCatches(gameState).map(reaction =>
+          setTimeout(() => dispatchAction(reaction.action(stateRef.current)), reaction.delay));
+      return () => unoCatchTimeoutsRef.current.forEach(clearTimeout);
+  }, [gameState.unoWindow]);
+
+  // Jump-in: bots holding an identical copy of the new top card may slap it down
+  const topCardId = gameState.discardPile[gameState.discardPile.length - 1]?.id;
+  useEffect(() => {
+      jumpInTimeoutsRef.current.forEach(clearTimeout);
+      jumpInTimeoutsRef.current = [];
+      if (networkRoleRef.current === 'CLIENT') return;
+      jumpInTimeoutsRef.current = planJumpIns(gameState).map(reaction =>
+          setTimeout(() => dispatchAction(reaction.action(stateRef.current)), reaction.delay));
+      return () => jumpInTimeoutsRef.current.forEach(clearTimeout);
+  }, [topCardId, gameState.status]);
 
   // --- Human Interactions ---
   const onHumanPlayCard = (card: CardModel) => {
-      if (gameState.currentPlayerIndex !== getMyIndex()) return; 
-      const topCard = gameState.discardPile[gameState.discardPile.length - 1];
-      if (!isCardValid(card, topCard, gameState.currentColor)) return;
+      if (!canPlayCard(card, getViewPlayContext(view, myPlayerId))) return;
 
-      if (card.color === 'black') setWildColorSelector({ isOpen: true, cardToPlay: card });
+      const swapsHands = view.rules.sevenZero && card.type === 'number' && card.value === 7 && view.myHand.length > 1;
+      if (isWildCard(card)) setWildColorSelector({ isOpen: true, cardToPlay: card });
+      else if (swapsHands) setSwapTargetSelector({ isOpen: true, cardToPlay: card });
       else submitAction({ actionType: 'PLAY_CARD', cardId: card.id, playerId: myPlayerId });
   };
 
+  const onSwapTargetSelect = (targetPlayerId: string) => {
+      if (swapTargetSelector.cardToPlay) {
+          submitAction({ actionType: 'PLAY_CARD', cardId: swapTargetSelector.cardToPlay.id, targetPlayerId, playerId: myPlayerId });
+      }
+      setSwapTargetSelector({ isOpen: false, cardToPlay: null });
+  };
+
   const onWildColorSelect = (color: CardColor) => {
       if (wildColorSelector.cardToPlay) {
           submitAction({ actionType: 'PLAY_CARD', cardId: wildColorSelector.cardToPlay.id, wildColor: color, playerId: myPlayerId });
@@ -560,297 +1134,196 @@ const App: React.FC = () => {
   };
 
   const onHumanDraw = () => {
-       if (gameState.currentPlayerIndex !== getMyIndex()) return;
+       if (view.currentPlayerIndex !== getMyIndex()) return;
        submitAction({ actionType: 'DRAW_CARD', playerId: myPlayerId });
   };
 
+  const onPassTurn = () => {
+       submitAction({ actionType: 'PASS_TURN', playerId: myPlayerId });
+  };
+
+  const onChallengeWild4 = () => {
+       submitAction({ actionType: 'CHALLENGE_WILD4', playerId: myPlayerId });
+  };
+
+  const onAcceptWild4 = () => {
+       submitAction({ actionType: 'ACCEPT_WILD4', playerId: myPlayerId });
+  };
+
   const onCallUno = () => {
       submitAction({ actionType: 'CALL_UNO', playerId: myPlayerId });
   };
 
+  const onGiveCard = (card: CardModel) => {
+      submitAction({ actionType: 'GIVE_CARD', cardId: card.id, playerId: myPlayerId });
+  };
+
+  const onCatchUno = (targetPlayerId: string) => {
+      submitAction({ actionType: 'CATCH_UNO', targetPlayerId, playerId: myPlayerId });
+  };
+
   const submitAction = (action: PlayerAction) => {
       if (networkRoleRef.current === 'HOST' || networkRoleRef.current === 'OFFLINE') {
-          handleRemoteAction(action);
+          const reason = dispatchAction(action);
+          if (reason) setLastAction(`Jogada recusada: ${REJECTION_LABELS[reason]}`);
+          else timeoutStreaksRef.current[action.playerId] = 0;
       } else {
           if (hostConnRef.current) hostConnRef.current.send({ type: 'PLAYER_ACTION', payload: action });
       }
   };
 
   // --- View Helpers ---
-  const getMyIndex = () => gameState.players.findIndex(p => p.id === myPlayerId);
-  const myPlayer = gameState.players.find(p => p.id === myPlayerId);
-  
-  const getRelativePlayers = () => {
-      const myIdx = getMyIndex();
-      if (myIdx === -1) return gameState.players; 
-      const count = gameState.players.length;
-      const ordered = [];
-      for (let i = 1; i < count; i++) {
-          ordered.push(gameState.players[(myIdx + i) % count]);
+  const view: PlayerView = networkRole === 'CLIENT' && remoteView ? remoteView : getPlayerView(gameState, myPlayerId);
+  const getMyIndex = () => view.players.findIndex(p => p.id === myPlayerId);
+
+  // Profile stats follow this device's own seat (the first one in a pass-and-play match)
+  const profileSeatId = isHotSeat ? 'host' : myPlayerId;
+  const trackedView = networkRole === 'CLIENT' ? remoteView : getPlayerView(gameState, profileSeatId);
+  const trackedViewRef = useRef<PlayerView | null>(null);
+  useEffect(() => {
+      const previous = trackedViewRef.current;
+      trackedViewRef.current = trackedView;
+      if (!trackedView || isSpectator) return;
+      setProfile(prev => {
+          if (!prev) return prev;
+          const stats = updateStats(prev.stats, previous, trackedView, profileSeatId);
+          return stats === prev.stats ? prev : { ...prev, stats };
+      });
+      if (profile && trackedView.status === GameStatus.GAME_OVER && previous?.status === GameStatus.PLAYING) {
+          // Only a device that ran the rules has the log to replay
+          const log = networkRole === 'CLIENT' ? null : matchLogRef.current;
+          addMatchRecord(createMatchRecord(trackedView, profileSeatId, profile.id, log))
+              .then(listMatchRecords)
+              .then(setMatchHistory);
       }
-      return ordered;
-  };
-
-  const getOpponentStyle = (index: number, totalOpponents: number) => {
-       // Mobile-First optimized positioning
-       if (totalOpponents === 1) return "top-8 left-1/2 -translate-x-1/2 scale-110";
-       if (totalOpponents === 2) return index === 0 ? "top-20 left-4 md:top-24 md:left-12" : "top-20 right-4 md:top-24 md:right-12";
-       if (totalOpponents === 3) {
-           if (index === 0) return "left-2 top-1/2 -translate-y-1/2 scale-90 md:scale-100 md:left-4";
-           if (index === 1) return "top-4 left-1/2 -translate-x-1/2";
-           if (index === 2) return "right-2 top-1/2 -translate-y-1/2 scale-90 md:scale-100 md:right-4";
-       }
-       if (totalOpponents >= 4) {
-           if (index === 0) return "left-2 bottom-40 scale-75 md:scale-100 md:left-4 md:bottom-32";
-           if (index === 1) return "top-12 left-8 md:top-12 md:left-16";
-           if (index === 2) return "top-12 right-8 md:top-12 md:right-16";
-           if (index === 3) return "right-2 bottom-40 scale-75 md:scale-100 md:right-4 md:bottom-32";
-       }
-       return "top-0";
+  }, [gameState, remoteView]);
+
+  const exportMatchLog = () => {
+      if (matchLogRef.current) downloadMatchLog(matchLogRef.current);
   };
 
   // --- Render ---
-  const renderLobby = () => {
-      if (lobbyView === 'MENU') {
-          return (
-            <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 p-4">
-              <div className="flex justify-center mb-6">
-                 <img src="logo.svg" alt="Logo" className="w-24 h-24 drop-shadow-2xl animate-bounce" />
-              </div>
-              <div className="text-4xl md:text-6xl font-black text-transparent bg-clip-text bg-gradient-to-r from-red-500 via-yellow-400 to-blue-500 mb-8 animate-pulse text-center">
-                CARD CLASH
-                <span className="block text-lg md:text-xl text-slate-400 mt-2 font-normal tracking-widest uppercase">Multiplayer Online</span>
-              </div>
-              <div className="bg-slate-800 p-6 md:p-8 rounded-2xl shadow-2xl w-full max-w-md border border-slate-700 space-y-4">
-                <input 
-                    className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
-                    value={playerName}
-                    onChange={(e) => setPlayerName(e.target.value)}
-                    placeholder="Digite seu apelido"
-                    maxLength={12}
-                />
-                <button onClick={createRoom} className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-4 rounded-xl shadow-lg active:scale-95 transition-transform">Criar Sala (Host)</button>
-                <button onClick={() => setLobbyView('JOIN')} className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl shadow-lg active:scale-95 transition-transform">Entrar na Sala (Código)</button>
-              </div>
-            </div>
-          );
-      }
-      if (lobbyView === 'JOIN') {
-          return (
-             <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 p-4">
-                <div className="bg-slate-800 p-8 rounded-2xl shadow-2xl w-full max-w-md border border-slate-700">
-                    <h2 className="text-2xl font-bold mb-6 text-center">Entrar na Sala</h2>
-                    <input 
-                        className="w-full bg-slate-900 border border-slate-600 rounded-lg p-4 text-center text-2xl tracking-[0.5em] font-mono text-white mb-6 uppercase focus:ring-2 focus:ring-green-500 outline-none"
-                        value={joinCode}
-                        onChange={(e) => setJoinCode(e.target.value.substring(0,4))}
-                        placeholder="CÓDIGO"
-                        maxLength={4}
-                    />
-                    <div className="text-center text-sm text-yellow-400 mb-4 h-6">{connectionStatus}</div>
-                    <button onClick={joinRoom} className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl shadow-lg mb-4">Conectar</button>
-                    <button onClick={() => setLobbyView('MENU')} className="w-full text-slate-400 hover:text-white">Voltar</button>
-                </div>
-             </div>
-          );
-      }
-      if (lobbyView === 'WAITING_HOST' || lobbyView === 'WAITING_CLIENT') {
-          return (
-             <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 p-4">
-                 <div className="text-center w-full max-w-md">
-                     <h2 className="text-xl md:text-2xl font-bold mb-2">Código da Sala: <span className="text-green-400 font-mono text-3xl mx-2 tracking-widest">{roomCode}</span></h2>
-                     
-                     <div className="bg-slate-800/50 p-4 rounded-lg w-full mx-auto mb-6 min-h-[150px] border border-slate-700">
-                        <h3 className="text-xs font-bold text-slate-500 mb-3 uppercase tracking-wider border-b border-slate-700 pb-2">Jogadores Conectados</h3>
-                        <div className="flex flex-col gap-2">
-                            {connectedPeers.length === 0 && networkRole === 'CLIENT' && (
-                                <div className="text-slate-500 italic animate-pulse">Conectando...</div>
-                            )}
-                            {connectedPeers.map(p => (
-                                 <div key={p.id} className="text-white font-bold flex items-center justify-between bg-slate-700/50 px-3 py-2 rounded">
-                                     <span>{p.name}</span>
-                                     <span className="text-xs bg-green-500 text-black px-2 py-0.5 rounded-full font-bold">PRONTO</span>
-                                 </div>
-                            ))}
-                        </div>
-                     </div>
-
-                     {networkRole === 'HOST' && (
-                         <div className="w-full space-y-3">
-                            <button onClick={() => startGameHost('1v1')} className="w-full bg-blue-600 hover:bg-blue-500 py-3 rounded-lg font-bold text-sm shadow-lg flex justify-between px-4">
-                                <span>Duelo 1v1</span>
-                                <span className="text-blue-200">{connectedPeers.length > 1 ? 'Vs Humano' : 'Vs Bot'}</span>
-                            </button>
-                            <button onClick={() => startGameHost('1v3')} className="w-full bg-blue-600 hover:bg-blue-500 py-3 rounded-lg font-bold text-sm shadow-lg flex justify-between px-4">
-                                <span>4 Jogadores</span>
-                                <span className="text-blue-200">{connectedPeers.length}/4 Humanos</span>
-                            </button>
-                            <button onClick={() => startGameHost('1v4')} className="w-full bg-blue-600 hover:bg-blue-500 py-3 rounded-lg font-bold text-sm shadow-lg flex justify-between px-4">
-                                <span>5 Jogadores</span>
-                                <span className="text-blue-200">{connectedPeers.length}/5 Humanos</span>
-                            </button>
-                         </div>
-                     )}
-                 </div>
-             </div>
-          );
-      }
-      return null;
+  if (lobbyView === 'REPLAY') {
+      const exitReplay = () => {
+          setLobbyView(replayLog ? 'PROFILE' : 'MENU');
+          setReplayLog(null);
+      };
+      return <ReplayViewer initialLog={replayLog} onExit={exitReplay} />;
   }
-  
-  // Game UI
-  const renderGame = () => {
-    const relativeOpponents = getRelativePlayers();
-    const isMyTurn = gameState.currentPlayerIndex === getMyIndex();
-    const topCard = gameState.discardPile[gameState.discardPile.length - 1];
-
-    return (
-    <div className="relative w-full h-screen flex flex-col bg-gradient-to-br from-slate-900 to-slate-800 overflow-hidden select-none">
-      {wildColorSelector.isOpen && (
-          <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm">
-            <div className="bg-slate-800 p-6 rounded-xl border-2 border-slate-600 animate-bounce shadow-2xl">
-                <h3 className="text-xl font-bold mb-4 text-center">Escolher Cor</h3>
-                <div className="grid grid-cols-2 gap-4">
-                    {(['red', 'blue', 'green', 'yellow'] as CardColor[]).map(c => (
-                        <button key={c} onClick={() => onWildColorSelect(c)} className={`w-20 h-20 md:w-24 md:h-24 rounded-lg bg-${c === 'yellow' ? 'yellow-400' : c + '-500'} hover:opacity-80 transition-all transform hover:scale-105 shadow-lg`}/>
-                    ))}
-                </div>
-            </div>
-          </div>
-      )}
-
-      {/* Top Bar */}
-      <div className="h-14 md:h-16 flex items-center justify-between px-4 md:px-6 bg-slate-900/50 backdrop-blur border-b border-slate-700 z-50">
-          <div className="flex items-center gap-2">
-            <img src="logo.svg" className="w-6 h-6 md:w-8 md:h-8" />
-            <span className="font-black text-lg md:text-xl tracking-tighter text-white hidden md:block">CARD CLASH</span>
-            <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase bg-${gameState.currentColor === 'yellow' ? 'yellow-400' : gameState.currentColor + '-500'} text-${gameState.currentColor === 'yellow' ? 'black' : 'white'} shadow-sm`}>
-                Cor: {gameState.currentColor === 'red' ? 'Vermelho' : gameState.currentColor === 'blue' ? 'Azul' : gameState.currentColor === 'green' ? 'Verde' : 'Amarelo'}
-            </span>
-          </div>
-          <div className="flex items-center gap-3">
-            <div className="text-xs md:text-sm text-slate-400 font-mono bg-slate-800 px-2 py-1 rounded border border-slate-700">{roomCode}</div>
-            
-            {/* Mobile Chat Toggle */}
-            <button 
-                onClick={() => { setIsChatOpen(!isChatOpen); setUnreadMessages(0); }}
-                className="lg:hidden relative p-2 bg-slate-700 rounded-full hover:bg-slate-600 transition-colors"
-            >
-                💬
-                {unreadMessages > 0 && (
-                    <span className="absolute -top-1 -right-1 bg-red-500 text-white text-[10px] w-4 h-4 rounded-full flex items-center justify-center animate-pulse">
-                        {unreadMessages}
-                    </span>
-                )}
-            </button>
-          </div>
-      </div>
-
-      <div className="flex-1 relative overflow-hidden flex">
-          <div className="flex-1 relative flex flex-col items-center justify-center p-4">
-              {/* Opponents */}
-              {relativeOpponents.map((opp, i) => {
-                  const actualIdx = gameState.players.findIndex(p => p.id === opp.id);
-                  const isTurn = gameState.currentPlayerIndex === actualIdx;
-                  return (
-                    <div key={opp.id} className={`absolute transition-all duration-500 ${getOpponentStyle(i, relativeOpponents.length)} ${isTurn ? 'z-20 scale-110' : 'z-10 opacity-90'}`}>
-                        <div className="flex flex-col items-center group">
-                            <div className={`w-12 h-12 md:w-16 md:h-16 rounded-full bg-slate-700 border-2 ${isTurn ? 'border-yellow-400 shadow-[0_0_15px_rgba(250,204,21,0.5)]' : 'border-slate-500'} flex items-center justify-center text-2xl md:text-3xl mb-1 md:mb-2 relative transition-all`}>
-                                {opp.avatar}
-                                <div className="absolute -top-1 -right-1 md:-top-2 md:-right-2 w-5 h-5 md:w-6 md:h-6 bg-red-600 rounded-full text-[10px] md:text-xs flex items-center justify-center text-white font-bold border-2 border-slate-800 shadow">
-                                    {opp.hand.length}
-                                </div>
-                                {opp.hand.length === 1 && <div className="absolute -bottom-2 bg-yellow-500 text-black text-[10px] font-black px-1.5 rounded animate-bounce">UNO</div>}
-                            </div>
-                            <span className={`text-[10px] md:text-xs font-bold px-2 py-0.5 rounded ${isTurn ? 'bg-yellow-500/20 text-yellow-200' : 'bg-slate-800/80 text-slate-300'}`}>{opp.name}</span>
-                        </div>
-                    </div>
-                  );
-              })}
-
-              {/* Table Center */}
-              <div className="flex items-center gap-4 md:gap-8 z-10 scale-90 md:scale-100 transition-transform mt-[-40px] md:mt-0">
-                  <div onClick={isMyTurn ? onHumanDraw : undefined} className={`relative w-20 h-28 md:w-28 md:h-40 bg-slate-800 rounded-xl border-4 border-slate-600 flex items-center justify-center shadow-2xl ${isMyTurn ? 'cursor-pointer hover:scale-105 hover:border-blue-400 ring-2 ring-blue-500/50' : ''} transition-all`}>
-                      <div className="absolute w-16 h-24 md:w-24 md:h-36 bg-slate-700 rounded-lg border-2 border-slate-500" style={{ transform: 'rotate(-5deg)'}}></div>
-                      <div className="absolute w-16 h-24 md:w-24 md:h-36 bg-slate-700 rounded-lg border-2 border-slate-500" style={{ transform: 'rotate(3deg)'}}></div>
-                      <div className="z-10 font-black text-2xl md:text-4xl text-slate-600 select-none">UNO</div>
-                  </div>
-                  <div className="relative w-24 h-32 md:w-32 md:h-44 flex items-center justify-center">
-                      {gameState.discardPile.slice(-3).map((card, i) => (
-                          <div key={card.id} className="absolute transition-all" style={{ transform: `rotate(${i * 5 - 10}deg) translateY(${i * -2}px)` }}>
-                               <Card card={card} size="md" /> {/* Force MD size mostly, adjust logic inside Card if needed */}
-                          </div>
-                      ))}
-                  </div>
-              </div>
-               <div className="absolute bottom-32 md:bottom-20 w-full text-center">
-                   <span className="text-yellow-400 font-bold animate-pulse text-sm md:text-lg drop-shadow-md bg-black/50 px-3 py-1 rounded-full">{lastAction}</span>
-               </div>
-          </div>
-          
-          {/* Desktop Chat */}
-          <div className="w-72 border-l border-slate-700 p-2 hidden lg:block bg-slate-900/50">
-              <Chat messages={chatMessages} onSendMessage={(text) => addChatMessage(myPlayerId, playerName, text)} />
-          </div>
-
-          {/* Mobile Chat Overlay */}
-          {isChatOpen && (
-              <div className="absolute inset-0 z-40 bg-slate-900/95 lg:hidden flex flex-col p-4">
-                  <div className="flex justify-between items-center mb-4">
-                      <h3 className="font-bold text-lg">Chat</h3>
-                      <button onClick={() => setIsChatOpen(false)} className="text-slate-400 text-2xl">✕</button>
-                  </div>
-                  <div className="flex-1 overflow-hidden">
-                    <Chat messages={chatMessages} onSendMessage={(text) => addChatMessage(myPlayerId, playerName, text)} />
-                  </div>
-              </div>
-          )}
-      </div>
-
-      {/* Hand */}
-      <div className={`h-40 md:h-48 w-full bg-slate-900 border-t border-slate-700 relative flex flex-col items-center justify-end pb-2 md:pb-4 transition-colors ${isMyTurn ? 'bg-slate-800/90 shadow-[0_-4px_30px_rgba(59,130,246,0.2)]' : ''}`}>
-          {isMyTurn && <div className="absolute -top-8 md:-top-12 bg-blue-600 text-white px-4 md:px-8 py-1 md:py-2 rounded-full font-bold shadow-lg animate-bounce z-20 border-2 border-blue-400 pointer-events-none text-xs md:text-base">SUA VEZ</div>}
-          
-          <button onClick={onCallUno} className="absolute right-2 md:right-8 top-2 md:top-4 bg-gradient-to-br from-red-600 to-red-700 hover:from-red-500 hover:to-red-600 text-white font-black italic rounded-full w-12 h-12 md:w-16 md:h-16 shadow-lg border-2 md:border-4 border-white transition-transform active:scale-95 z-30 text-xs md:text-base">UNO!</button>
-          
-          <div className="flex items-end justify-start md:justify-center space-x-[-2rem] md:-space-x-8 hover:space-x-[-1rem] md:hover:space-x-1 transition-all duration-300 px-4 w-full overflow-x-auto overflow-y-hidden py-4 min-h-[130px] md:min-h-[140px] scrollbar-thin scrollbar-thumb-slate-700">
-              {myPlayer?.hand.map((card, index) => (
-                  <div key={card.id} className="transform transition-transform hover:-translate-y-6 md:hover:-translate-y-10 hover:z-50 origin-bottom duration-200 min-w-[3rem] md:min-w-auto" style={{ zIndex: index }}>
-                      <Card card={card} isPlayable={isMyTurn && isCardValid(card, topCard, gameState.currentColor)} onClick={() => onHumanPlayCard(card)} disabled={!isMyTurn} size="md" />
-                  </div>
-              ))}
-          </div>
-      </div>
-      
-      {gameState.status === GameStatus.GAME_OVER && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4">
-            <div className="bg-slate-800 p-6 md:p-10 rounded-2xl text-center border-4 border-yellow-500 shadow-2xl w-full max-w-lg">
-                <h2 className="text-3xl md:text-5xl font-black text-white mb-4">{gameState.winner?.id === myPlayerId ? 'VITÓRIA! 🏆' : 'FIM DE JOGO 💀'}</h2>
-                <p className="text-lg md:text-xl text-slate-300 mb-8">{gameState.winner?.name} venceu!</p>
-                
-                <div className="flex flex-col md:flex-row gap-4 justify-center">
-                    {(networkRole === 'HOST' || networkRole === 'OFFLINE') ? (
-                        <button onClick={resetGame} className="bg-blue-600 hover:bg-blue-500 px-6 py-3 rounded-full font-bold text-lg transition-transform hover:scale-110 shadow-lg">
-                            Jogar Novamente
-                        </button>
-                    ) : (
-                        <div className="text-sm text-slate-400 flex items-center justify-center">
-                             Aguardando host...
-                        </div>
-                    )}
-
-                    <button onClick={() => window.location.reload()} className="bg-red-600 hover:bg-red-500 px-6 py-3 rounded-full font-bold text-lg transition-transform hover:scale-110 shadow-lg">
-                        Sair
-                    </button>
-                </div>
-            </div>
-        </div>
-      )}
-    </div>
-    );
-  };
-
-  return gameState.status === GameStatus.LOBBY ? renderLobby() : renderGame();
+
+  if (lobbyView === 'PROFILE' && profile) {
+      return (
+          <ProfileScreen
+              profile={profile}
+              history={matchHistory}
+              onChangeAvatar={(avatar) => updateProfile({ avatar })}
+              onOpenReplay={(log) => {
+                  setReplayLog(log);
+                  setLobbyView('REPLAY');
+              }}
+              onExit={() => setLobbyView('MENU')}
+          />
+      );
+  }
+
+  const handoffPlayer = view.status === GameStatus.PLAYING && view.players.find(p => p.id === handoffTo);
+  if (handoffPlayer) {
+      return (
+          <PassDevice
+              nextPlayerName={handoffPlayer.name}
+              nextPlayerAvatar={handoffPlayer.avatar}
+              lastAction={lastAction}
+              canCallUno={view.unoWindow === myPlayerId}
+              onCallUno={onCallUno}
+              onReady={takeDevice}
+          />
+      );
+  }
+
+  if (view.status === GameStatus.LOBBY) {
+      return (
+          <Lobby
+              view={lobbyView}
+              playerName={playerName}
+              setPlayerName={changePlayerName}
+              avatar={profile?.avatar ?? AVATARS[0]}
+              joinCode={joinCode}
+              setJoinCode={setJoinCode}
+              roomCode={roomCode}
+              connectionStatus={connectionStatus}
+              connectedPeers={connectedPeers}
+              networkRole={networkRole}
+              isRoomOwner={isRoomOwner}
+              transportKind={transportKind}
+              setTransportKind={setTransportKind}
+              serverUrl={serverUrl}
+              setServerUrl={setServerUrl}
+              targetScore={targetScore}
+              setTargetScore={setTargetScore}
+              turnTimeLimit={turnTimeLimit}
+              setTurnTimeLimit={setTurnTimeLimit}
+              revealHands={revealHands}
+              setRevealHands={setRevealHands}
+              isSpectator={isSpectator}
+              rules={rules}
+              setRules={setRules}
+              seedInput={seedInput}
+              setSeedInput={setSeedInput}
+              botDifficulties={botDifficulties}
+              setBotDifficulties={setBotDifficulties}
+              maxPlayers={maxPlayers}
+              setMaxPlayers={changeMaxPlayers}
+              myPlayerId={myPlayerId}
+              onToggleReady={toggleReady}
+              onKickPlayer={kickPlayer}
+              onReorderSeats={reorderSeats}
+              localPlayers={localPlayers}
+              teams={teams}
+              setTeams={setTeams}
+              deck={deck}
+              setDeck={setDeck}
+              setLocalPlayers={setLocalPlayers}
+              onCreateRoom={createRoom}
+              onJoinRoom={() => joinRoom()}
+              onSpectateRoom={() => joinRoom(true)}
+              resumeRoomCode={savedSession?.roomCode}
+              onResumeSession={resumeSession}
+              onStartGame={startGameHost}
+              setView={setLobbyView}
+          />
+      );
+  }
+
+  return (
+      <GameInterface
+          view={view}
+          myPlayerId={myPlayerId}
+          playerName={isHotSeat ? view.players.find(p => p.id === myPlayerId)?.name ?? playerName : playerName}
+          roomCode={roomCode}
+          chatMessages={chatMessages}
+          lastAction={lastAction}
+          networkRole={networkRole}
+          isRoomOwner={isRoomOwner}
+          isSpectator={isSpectator}
+          onPlayCard={onHumanPlayCard}
+          onDrawCard={onHumanDraw}
+          onPassTurn={onPassTurn}
+          onChallengeWild4={onChallengeWild4}
+          onAcceptWild4={onAcceptWild4}
+          onCallUno={onCallUno}
+          onCatchUno={onCatchUno}
+          onGiveCard={onGiveCard}
+          onReturnToSeat={onReturnToSeat}
+          onSendMessage={(text) => addChatMessage(myPlayerId, playerName, text, isSpectator)}
+          onWildColorSelect={onWildColorSelect}
+          onResetGame={resetGame}
+          onNextRound={nextRound}
+          onExportLog={networkRole === 'CLIENT' ? undefined : exportMatchLog}
+          wildColorSelector={wildColorSelector}
+          swapTargetSelector={swapTargetSelector}
+          onSwapTargetSelect={onSwapTargetSelect}
+      />
+  );
 };
 
-export default App;
\ No newline at end of file
+export default App;
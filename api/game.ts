@@ -0,0 +1,9 @@
+import { createGameApi, createGameApiHandler } from "../server/gameApi";
+import { createStorageFromEnv } from "../server/roomStorage";
+
+// Serverless entry for /api/game (Vercel picks up api/*.ts). `npm run dev` serves the
+// same handler through vite.config.ts. The memory and file stores are per instance, so a
+// deployment that scales past one instance needs a shared RoomStorage (see README).
+if (process.env.VERCEL) console.warn('/api/game: rooms live in this instance only; without a shared RoomStorage they break once Vercel runs more than one instance');
+
+export default createGameApiHandler(createGameApi(createStorageFromEnv()));
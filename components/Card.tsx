@@ -1,5 +1,6 @@
 import React from 'react';
 import { Card as CardType } from '../types';
+import { CARD_DEFINITIONS } from '../constants';
 
 interface CardProps {
   card: CardType;
@@ -31,26 +32,29 @@ const Card: React.FC<CardProps> = ({
     blue: "bg-blue-500 border-white text-white",
     green: "bg-green-500 border-white text-white",
     yellow: "bg-yellow-400 border-white text-black",
+    purple: "bg-purple-500 border-white text-white",
+    orange: "bg-orange-500 border-white text-white",
     black: "bg-gray-900 border-white text-white bg-[conic-gradient(at_top_right,_var(--tw-gradient-stops))] from-red-500 via-yellow-400 to-blue-500", // Wild effect
   };
 
   const getCardContent = () => {
     if (hidden) return <div className="w-8 h-8 rounded-full bg-red-600 border-2 border-white opacity-80" />;
 
-    switch (card.type) {
-      case 'number': return <span className="drop-shadow-md">{card.value}</span>;
-      case 'skip': return <span className="text-3xl">🚫</span>;
-      case 'reverse': return <span className="text-3xl">🔁</span>;
-      case 'draw2': return <span className="text-lg">+2</span>;
-      case 'wild': return <span className="text-sm">COR</span>;
-      case 'wild4': return <span className="text-sm text-center leading-tight">+4<br/>COR</span>;
-      default: return null;
+    if (card.type === 'number') return <span className="drop-shadow-md">{card.value}</span>;
+    // Action and wild faces come from the card definitions: emoji big, text smaller the longer it is
+    const { symbol } = CARD_DEFINITIONS[card.type];
+    if (symbol.includes(' ')) {
+      const [top, bottom] = symbol.split(' ');
+      return <span className="text-sm text-center leading-tight">{top}<br/>{bottom}</span>;
     }
+    const size = /\p{Extended_Pictographic}/u.test(symbol) ? 'text-3xl' : symbol.length > 2 ? 'text-sm' : 'text-lg';
+    return <span className={size}>{symbol}</span>;
   };
 
   const hoverClass = (!disabled && onClick && !hidden) ? "hover:-translate-y-4 hover:z-50 cursor-pointer hover:shadow-xl" : "";
   const playableClass = isPlayable ? "ring-4 ring-white ring-opacity-50 animate-pulse" : "";
   const bgClass = hidden ? "bg-slate-800 border-slate-600" : colorClasses[card.color];
+  const corner = card.type === 'number' ? card.value : CARD_DEFINITIONS[card.type].corner;
 
   return (
     <div 
@@ -61,10 +65,10 @@ const Card: React.FC<CardProps> = ({
       {!hidden && (
         <>
           <div className="absolute top-1 left-1 text-[0.6rem] leading-none opacity-80">
-            {card.type === 'number' ? card.value : (card.type === 'wild' || card.type === 'wild4' ? 'W' : card.type[0].toUpperCase())}
+            {corner}
           </div>
           <div className="absolute bottom-1 right-1 text-[0.6rem] leading-none opacity-80 rotate-180">
-             {card.type === 'number' ? card.value : (card.type === 'wild' || card.type === 'wild4' ? 'W' : card.type[0].toUpperCase())}
+             {corner}
           </div>
         </>
       )}
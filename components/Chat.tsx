@@ -1,5 +1,6 @@
 import React, { useEffect, useRef } from 'react';
 import { ChatMessage } from '../types';
+import { CHAT_MAX_LENGTH } from '../constants';
 
 interface ChatProps {
   messages: ChatMessage[];
@@ -43,6 +44,7 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage }) => {
                <div className="bg-slate-700/50 p-2 rounded-lg max-w-[90%]">
                  <div className="flex items-baseline gap-2 mb-0.5">
                    <span className="text-xs font-bold text-blue-300">{msg.senderName}</span>
+                   {msg.isSpectator && <span className="text-[9px] uppercase font-bold bg-purple-500/30 text-purple-200 px-1.5 rounded">👁 Espectador</span>}
                    <span className="text-[10px] text-slate-500">{new Date(msg.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}</span>
                  </div>
                  <p className="text-sm text-slate-200">{msg.text}</p>
@@ -59,6 +61,7 @@ const Chat: React.FC<ChatProps> = ({ messages, onSendMessage }) => {
           value={input}
           onChange={(e) => setInput(e.target.value)}
           placeholder="Digite uma mensagem..."
+          maxLength={CHAT_MAX_LENGTH}
           className="w-full bg-slate-800 text-sm text-white px-3 py-2 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
         />
       </form>
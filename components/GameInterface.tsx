@@ -1,48 +1,83 @@
 import React, { useState } from 'react';
-import { GameState, GameStatus, Card as CardModel, CardColor, ChatMessage, Player, NetworkRole } from '../types';
-import { isCardValid } from '../services/gameLogic';
+import { PlayerView, GameStatus, Card as CardModel, CardColor, ChatMessage, NetworkRole } from '../types';
+import { canPlayCard, getDeckColors, isPartner } from '../services/gameLogic';
+import { COLOR_LABELS, GIVE_CARD_MIN_HAND, MERCY_HAND_LIMIT, TEAM_NAMES, WILD4_CHALLENGE_PENALTY } from '../constants';
+import { getViewPlayContext } from '../services/playerView';
 import Card from './Card';
 import Chat from './Chat';
+import Scoreboard from './Scoreboard';
 
 interface GameInterfaceProps {
-  gameState: GameState;
+  view: PlayerView;
   myPlayerId: string;
   playerName: string;
   roomCode: string;
   chatMessages: ChatMessage[];
   lastAction: string;
   networkRole: NetworkRole;
+  // Owner of a room hosted by the game server: gets the host's match controls
+  isRoomOwner?: boolean;
+  // Watching without a seat: every player is shown around the table, no hand, no actions
+  isSpectator?: boolean;
   
   // Actions
   onPlayCard: (card: CardModel) => void;
   onDrawCard: () => void;
+  onPassTurn: () => void;
+  onChallengeWild4: () => void;
+  onAcceptWild4: () => void;
   onCallUno: () => void;
+  onCatchUno: (targetPlayerId: string) => void;
+  // Team mode: hands a card to the partner (once per round)
+  onGiveCard: (card: CardModel) => void;
+  // Takes the seat back from the bot after timing out too often
+  onReturnToSeat: () => void;
   onSendMessage: (text: string) => void;
   onWildColorSelect: (color: CardColor) => void;
   onResetGame: () => void;
+  onNextRound: () => void;
+  // Only the authoritative side holds the action log
+  onExportLog?: () => void;
   
   // Wild State passed from parent to keep sync or handled here
   wildColorSelector: { isOpen: boolean, cardToPlay: CardModel | null };
+  // 7-0 rule: picking who to swap hands with
+  swapTargetSelector: { isOpen: boolean, cardToPlay: CardModel | null };
+  onSwapTargetSelect: (targetPlayerId: string) => void;
 }
 
 const GameInterface: React.FC<GameInterfaceProps> = ({
-  gameState,
+  view,
   myPlayerId,
   playerName,
   roomCode,
   chatMessages,
   lastAction,
   networkRole,
+  isRoomOwner = false,
+  isSpectator = false,
   onPlayCard,
   onDrawCard,
+  onPassTurn,
+  onChallengeWild4,
+  onAcceptWild4,
   onCallUno,
+  onCatchUno,
+  onGiveCard,
+  onReturnToSeat,
   onSendMessage,
   onWildColorSelect,
   onResetGame,
-  wildColorSelector
+  onNextRound,
+  onExportLog,
+  wildColorSelector,
+  swapTargetSelector,
+  onSwapTargetSelect
 }) => {
   const [isChatOpen, setIsChatOpen] = useState(false);
   const [unreadMessages, setUnreadMessages] = useState(0);
+  // Team mode: the next card clicked goes to the partner instead of the table
+  const [isGiving, setIsGiving] = useState(false);
 
   // Helper to handle chat count
   const handleChatOpen = () => {
@@ -57,16 +92,31 @@ const GameInterface: React.FC<GameInterfaceProps> = ({
     }
   }, [chatMessages, isChatOpen]);
 
-  const getMyIndex = () => gameState.players.findIndex(p => p.id === myPlayerId);
-  const myPlayer = gameState.players.find(p => p.id === myPlayerId);
+  // Turn clock: the host enforces it, so counting from when this turn reached us is close enough
+  const [turnStartedAt, setTurnStartedAt] = useState(() => Date.now());
+  const [now, setNow] = useState(() => Date.now());
+  React.useEffect(() => {
+    setTurnStartedAt(Date.now());
+    setNow(Date.now());
+  }, [view.turnCount, view.currentPlayerIndex, view.roundNumber]);
+  const clockRunning = view.status === GameStatus.PLAYING && view.turnTimeLimit > 0 && !view.players[view.currentPlayerIndex]?.isBot;
+  React.useEffect(() => {
+    if (!clockRunning) return;
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, [clockRunning]);
+  const secondsLeft = clockRunning ? Math.max(0, Math.ceil(view.turnTimeLimit - (now - turnStartedAt) / 1000)) : null;
+  const clockClass = (seconds: number) => seconds <= 5 ? 'bg-red-600 animate-pulse' : 'bg-slate-900';
+
+  const getMyIndex = () => view.players.findIndex(p => p.id === myPlayerId);
   
   const getRelativePlayers = () => {
       const myIdx = getMyIndex();
-      if (myIdx === -1) return gameState.players; 
-      const count = gameState.players.length;
+      if (myIdx === -1) return view.players; 
+      const count = view.players.length;
       const ordered = [];
       for (let i = 1; i < count; i++) {
-          ordered.push(gameState.players[(myIdx + i) % count]);
+          ordered.push(view.players[(myIdx + i) % count]);
       }
       return ordered;
   };
@@ -84,13 +134,35 @@ const GameInterface: React.FC<GameInterfaceProps> = ({
            if (index === 1) return "top-12 left-8 md:top-12 md:left-16";
            if (index === 2) return "top-12 right-8 md:top-12 md:right-16";
            if (index === 3) return "right-2 bottom-40 scale-75 md:scale-100 md:right-4 md:bottom-32";
+           // A spectator sees all five seats; the last one takes the empty hand area
+           if (index === 4) return "bottom-2 left-1/2 -translate-x-1/2 scale-90 md:scale-100";
        }
        return "top-0";
   };
 
   const relativeOpponents = getRelativePlayers();
-  const isMyTurn = gameState.currentPlayerIndex === getMyIndex();
-  const topCard = gameState.discardPile[gameState.discardPile.length - 1];
+  const isMyTurn = view.currentPlayerIndex === getMyIndex();
+  const playContext = getViewPlayContext(view, myPlayerId);
+  const canPass = isMyTurn && !!view.drawnCardId && !view.rules.forcePlayAfterDraw;
+  const amAway = !!view.players[getMyIndex()]?.isAway;
+  const amEliminated = !!view.players[getMyIndex()]?.eliminated;
+  const wild4Offender = view.pendingWild4?.victimId === myPlayerId ? view.players.find(p => p.id === view.pendingWild4!.playerId) : undefined;
+  const me = view.players[getMyIndex()];
+  const partner = me && view.players.find(p => isPartner(p, me));
+  const canGive = !!view.teams?.passCard && !!partner && isMyTurn && !view.cardsGiven.includes(myPlayerId)
+      && !view.drawnCardId && view.pendingDraw === 0 && view.myHand.length >= GIVE_CARD_MIN_HAND;
+  // Team mode: the winner's side, and whether it is ours
+  const winningTeam = view.winner?.team;
+  const winnerNames = winningTeam !== undefined
+      ? `${TEAM_NAMES[winningTeam]} (${view.players.filter(p => p.team === winningTeam).map(p => p.name).join(' e ')})`
+      : view.winner?.name;
+  const weWon = !!view.winner && (view.winner.id === myPlayerId || (!!me && isPartner(view.winner, me)));
+  const giving = isGiving && canGive;
+  const onHandCardClick = (card: CardModel) => {
+      if (!giving) return onPlayCard(card);
+      setIsGiving(false);
+      onGiveCard(card);
+  };
 
   return (
     <div className="relative w-full h-screen flex flex-col bg-gradient-to-br from-slate-900 to-slate-800 overflow-hidden select-none">
@@ -98,8 +170,8 @@ const GameInterface: React.FC<GameInterfaceProps> = ({
           <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm">
             <div className="bg-slate-800 p-6 rounded-xl border-2 border-slate-600 animate-bounce shadow-2xl">
                 <h3 className="text-xl font-bold mb-4 text-center">Escolher Cor</h3>
-                <div className="grid grid-cols-2 gap-4">
-                    {(['red', 'blue', 'green', 'yellow'] as CardColor[]).map(c => (
+                <div className={`grid ${getDeckColors(view.deck).length > 4 ? 'grid-cols-3' : 'grid-cols-2'} gap-4`}>
+                    {getDeckColors(view.deck).map(c => (
                         <button key={c} onClick={() => onWildColorSelect(c)} className={`w-20 h-20 md:w-24 md:h-24 rounded-lg bg-${c === 'yellow' ? 'yellow-400' : c + '-500'} hover:opacity-80 transition-all transform hover:scale-105 shadow-lg`}/>
                     ))}
                 </div>
@@ -107,13 +179,43 @@ const GameInterface: React.FC<GameInterfaceProps> = ({
           </div>
       )}
 
+      {swapTargetSelector.isOpen && (
+          <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm">
+            <div className="bg-slate-800 p-6 rounded-xl border-2 border-slate-600 shadow-2xl w-full max-w-xs">
+                <h3 className="text-xl font-bold mb-4 text-center">Trocar mão com...</h3>
+                <div className="flex flex-col gap-2">
+                    {view.players.filter(p => p.id !== myPlayerId && !p.eliminated).map(p => (
+                        <button key={p.id} onClick={() => onSwapTargetSelect(p.id)} className="flex items-center justify-between bg-slate-700 hover:bg-slate-600 px-4 py-3 rounded-lg font-bold transition-colors">
+                            <span>{p.avatar} {p.name}</span>
+                            <span className="text-sm text-slate-300">{p.handCount} cartas</span>
+                        </button>
+                    ))}
+                </div>
+            </div>
+          </div>
+      )}
+
+      {wild4Offender && (
+          <div className="fixed inset-0 z-[90] flex items-end md:items-center justify-center pointer-events-none p-4 pb-52 md:pb-4">
+            <div className="bg-slate-800 p-5 rounded-xl border-2 border-red-500 shadow-2xl w-full max-w-sm pointer-events-auto text-center">
+                <h3 className="text-lg font-bold mb-1">{wild4Offender.name} jogou +4!</h3>
+                <p className="text-xs text-slate-400 mb-4">Desafie se achar que tinha a cor anterior. Errou? Compra {view.pendingDraw + WILD4_CHALLENGE_PENALTY}.</p>
+                <div className="flex gap-3">
+                    <button onClick={onChallengeWild4} className="flex-1 bg-red-600 hover:bg-red-500 py-3 rounded-lg font-bold">Desafiar</button>
+                    <button onClick={onAcceptWild4} className="flex-1 bg-slate-600 hover:bg-slate-500 py-3 rounded-lg font-bold">Aceitar (+{view.pendingDraw})</button>
+                </div>
+                {view.rules.stackDrawCards && <p className="text-[10px] text-slate-500 mt-3">Ou acumule jogando outro +4.</p>}
+            </div>
+          </div>
+      )}
+
       {/* Top Bar */}
       <div className="h-14 md:h-16 flex items-center justify-between px-4 md:px-6 bg-slate-900/50 backdrop-blur border-b border-slate-700 z-50">
           <div className="flex items-center gap-2">
             <img src="logo.svg" className="w-6 h-6 md:w-8 md:h-8" />
             <span className="font-black text-lg md:text-xl tracking-tighter text-white hidden md:block">CARD CLASH</span>
-            <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase bg-${gameState.currentColor === 'yellow' ? 'yellow-400' : gameState.currentColor + '-500'} text-${gameState.currentColor === 'yellow' ? 'black' : 'white'} shadow-sm`}>
-                Cor: {gameState.currentColor === 'red' ? 'Vermelho' : gameState.currentColor === 'blue' ? 'Azul' : gameState.currentColor === 'green' ? 'Verde' : 'Amarelo'}
+            <span className={`px-2 py-0.5 rounded text-xs font-bold uppercase bg-${view.currentColor === 'yellow' ? 'yellow-400' : view.currentColor + '-500'} text-${view.currentColor === 'yellow' ? 'black' : 'white'} shadow-sm`}>
+                Cor: {COLOR_LABELS[view.currentColor]}
             </span>
           </div>
           <div className="flex items-center gap-3">
@@ -138,19 +240,39 @@ const GameInterface: React.FC<GameInterfaceProps> = ({
           <div className="flex-1 relative flex flex-col items-center justify-center p-4">
               {/* Opponents */}
               {relativeOpponents.map((opp, i) => {
-                  const actualIdx = gameState.players.findIndex(p => p.id === opp.id);
-                  const isTurn = gameState.currentPlayerIndex === actualIdx;
+                  const actualIdx = view.players.findIndex(p => p.id === opp.id);
+                  const isTurn = view.currentPlayerIndex === actualIdx;
                   return (
-                    <div key={opp.id} className={`absolute transition-all duration-500 ${getOpponentStyle(i, relativeOpponents.length)} ${isTurn ? 'z-20 scale-110' : 'z-10 opacity-90'}`}>
+                    <div key={opp.id} className={`absolute transition-all duration-500 ${getOpponentStyle(i, relativeOpponents.length)} ${isTurn ? 'z-20 scale-110' : 'z-10 opacity-90'} ${opp.eliminated ? 'grayscale opacity-40' : ''}`}>
                         <div className="flex flex-col items-center group">
                             <div className={`w-12 h-12 md:w-16 md:h-16 rounded-full bg-slate-700 border-2 ${isTurn ? 'border-yellow-400 shadow-[0_0_15px_rgba(250,204,21,0.5)]' : 'border-slate-500'} flex items-center justify-center text-2xl md:text-3xl mb-1 md:mb-2 relative transition-all`}>
                                 {opp.avatar}
                                 <div className="absolute -top-1 -right-1 md:-top-2 md:-right-2 w-5 h-5 md:w-6 md:h-6 bg-red-600 rounded-full text-[10px] md:text-xs flex items-center justify-center text-white font-bold border-2 border-slate-800 shadow">
-                                    {opp.hand.length}
+                                    {opp.handCount}
                                 </div>
-                                {opp.hand.length === 1 && <div className="absolute -bottom-2 bg-yellow-500 text-black text-[10px] font-black px-1.5 rounded animate-bounce">UNO</div>}
+                                {opp.isUno && opp.handCount === 1 && <div className="absolute -bottom-2 bg-yellow-500 text-black text-[10px] font-black px-1.5 rounded animate-bounce">UNO</div>}
+                                {opp.isAway && <div className="absolute -top-1 -left-1 md:-top-2 md:-left-2 text-xs md:text-sm" title="Ausente — um bot está jogando">🔌</div>}
+                                {isTurn && secondsLeft !== null && (
+                                    <div className={`absolute -bottom-1 -left-2 md:-left-3 ${clockClass(secondsLeft)} text-white text-[10px] md:text-xs font-mono font-bold px-1.5 rounded-full border border-slate-500`}>{secondsLeft}s</div>
+                                )}
+                                {view.unoWindow === opp.id && !isSpectator && (
+                                    <button onClick={() => onCatchUno(opp.id)} className="absolute -bottom-3 bg-red-600 hover:bg-red-500 text-white text-[10px] font-black px-2 py-0.5 rounded-full border-2 border-white animate-pulse z-30">
+                                        PEGAR!
+                                    </button>
+                                )}
                             </div>
                             <span className={`text-[10px] md:text-xs font-bold px-2 py-0.5 rounded ${isTurn ? 'bg-yellow-500/20 text-yellow-200' : 'bg-slate-800/80 text-slate-300'}`}>{opp.name}</span>
+                            {opp.eliminated && <span className="text-[9px] md:text-[10px] font-bold px-1.5 mt-0.5 rounded bg-red-700">ELIMINADO</span>}
+                            {opp.team !== undefined && (
+                                <span className={`text-[9px] md:text-[10px] font-bold px-1.5 mt-0.5 rounded ${opp.team === 0 ? 'bg-sky-600' : 'bg-orange-600'}`}>
+                                    {opp.id === partner?.id ? 'PARCEIRO' : TEAM_NAMES[opp.team]}
+                                </span>
+                            )}
+                            {opp.hand && (
+                                <div className="flex -space-x-5 mt-1 scale-75 origin-top">
+                                    {opp.hand.map(card => <Card key={card.id} card={card} size="sm" />)}
+                                </div>
+                            )}
                         </div>
                     </div>
                   );
@@ -164,7 +286,12 @@ const GameInterface: React.FC<GameInterfaceProps> = ({
                       <div className="z-10 font-black text-2xl md:text-4xl text-slate-600 select-none">UNO</div>
                   </div>
                   <div className="relative w-24 h-32 md:w-32 md:h-44 flex items-center justify-center">
-                      {gameState.discardPile.slice(-3).map((card, i) => (
+                      {view.pendingDraw > 0 && (
+                          <div className="absolute -top-4 -right-4 z-20 bg-red-600 text-white font-black text-lg px-3 py-1 rounded-full border-2 border-white shadow-lg animate-pulse">
+                              +{view.pendingDraw}
+                          </div>
+                      )}
+                      {view.recentDiscards.map((card, i) => (
                           <div key={card.id} className="absolute transition-all" style={{ transform: `rotate(${i * 5 - 10}deg) translateY(${i * -2}px)` }}>
                                <Card card={card} size="md" /> 
                           </div>
@@ -196,34 +323,96 @@ const GameInterface: React.FC<GameInterfaceProps> = ({
       </div>
 
       {/* Hand */}
-      <div className={`h-40 md:h-48 w-full bg-slate-900 border-t border-slate-700 relative flex flex-col items-center justify-end pb-2 md:pb-4 transition-colors ${isMyTurn ? 'bg-slate-800/90 shadow-[0_-4px_30px_rgba(59,130,246,0.2)]' : ''}`}>
-          {isMyTurn && <div className="absolute -top-8 md:-top-12 bg-blue-600 text-white px-4 md:px-8 py-1 md:py-2 rounded-full font-bold shadow-lg animate-bounce z-20 border-2 border-blue-400 pointer-events-none text-xs md:text-base">SUA VEZ</div>}
+      {isSpectator ? (
+          <div className="h-20 md:h-24 w-full bg-slate-900 border-t border-slate-700 flex items-center justify-center gap-3">
+              <span className="text-purple-300 font-bold text-sm md:text-base">👁 Você está assistindo</span>
+              {secondsLeft !== null && <span className={`px-2 rounded-full font-mono text-sm text-white ${clockClass(secondsLeft)}`}>{secondsLeft}s</span>}
+          </div>
+      ) : (
+          <div className={`h-40 md:h-48 w-full bg-slate-900 border-t border-slate-700 relative flex flex-col items-center justify-end pb-2 md:pb-4 transition-colors ${isMyTurn ? 'bg-slate-800/90 shadow-[0_-4px_30px_rgba(59,130,246,0.2)]' : ''}`}>
+              {isMyTurn && <div className="absolute -top-8 md:-top-12 bg-blue-600 text-white px-4 md:px-8 py-1 md:py-2 rounded-full font-bold shadow-lg animate-bounce z-20 border-2 border-blue-400 pointer-events-none text-xs md:text-base">
+                  SUA VEZ{secondsLeft !== null && <span className={`ml-2 px-2 rounded-full font-mono ${clockClass(secondsLeft)}`}>{secondsLeft}s</span>}
+              </div>}
+
+              {amEliminated && view.status === GameStatus.PLAYING && (
+                  <div className="absolute -top-14 md:-top-16 left-1/2 -translate-x-1/2 z-30 bg-slate-800 border-2 border-red-500 rounded-full px-4 py-2 shadow-lg whitespace-nowrap text-xs md:text-sm text-red-200">
+                      Você chegou a {MERCY_HAND_LIMIT} cartas e está fora desta rodada
+                  </div>
+              )}
+
+              {amAway && view.status === GameStatus.PLAYING && (
+                  <div className="absolute -top-14 md:-top-16 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 bg-slate-800 border-2 border-yellow-500 rounded-full pl-4 pr-1 py-1 shadow-lg whitespace-nowrap">
+                      <span className="text-xs md:text-sm text-yellow-200">Ausente — um bot está jogando por você</span>
+                      <button onClick={onReturnToSeat} className="bg-yellow-500 hover:bg-yellow-400 text-black font-bold rounded-full px-3 py-1 text-xs md:text-sm">Voltar ao jogo</button>
+                  </div>
+              )}
+
+              {canGive && (
+                  <button onClick={() => setIsGiving(!giving)} className={`absolute left-2 md:left-8 top-2 md:top-4 font-bold rounded-full px-4 py-2 shadow-lg border-2 z-30 text-xs md:text-sm ${giving ? 'bg-yellow-500 text-black border-yellow-300 animate-pulse' : 'bg-slate-700 hover:bg-slate-600 text-white border-slate-500'}`}>
+                      {giving ? `Escolha a carta para ${partner?.name}` : 'Dar carta ao parceiro'}
+                  </button>
+              )}
+
+              {canPass && (
+                  <button onClick={onPassTurn} className="absolute left-2 md:left-8 top-2 md:top-4 bg-slate-700 hover:bg-slate-600 text-white font-bold rounded-full px-4 py-2 shadow-lg border-2 border-slate-500 z-30 text-xs md:text-sm">
+                      Passar
+                  </button>
+              )}
           
-          <button onClick={onCallUno} className="absolute right-2 md:right-8 top-2 md:top-4 bg-gradient-to-br from-red-600 to-red-700 hover:from-red-500 hover:to-red-600 text-white font-black italic rounded-full w-12 h-12 md:w-16 md:h-16 shadow-lg border-2 md:border-4 border-white transition-transform active:scale-95 z-30 text-xs md:text-base">UNO!</button>
+              <button onClick={onCallUno} className={`absolute right-2 md:right-8 top-2 md:top-4 bg-gradient-to-br from-red-600 to-red-700 hover:from-red-500 hover:to-red-600 text-white font-black italic rounded-full w-12 h-12 md:w-16 md:h-16 shadow-lg border-2 md:border-4 border-white transition-transform active:scale-95 z-30 text-xs md:text-base ${view.unoWindow === myPlayerId ? 'animate-bounce ring-4 ring-yellow-400' : ''}`}>UNO!</button>
           
-          <div className="flex items-end justify-start md:justify-center space-x-[-2rem] md:-space-x-8 hover:space-x-[-1rem] md:hover:space-x-1 transition-all duration-300 px-4 w-full overflow-x-auto overflow-y-hidden py-4 min-h-[130px] md:min-h-[140px] scrollbar-thin scrollbar-thumb-slate-700">
-              {myPlayer?.hand.map((card, index) => (
-                  <div key={card.id} className="transform transition-transform hover:-translate-y-6 md:hover:-translate-y-10 hover:z-50 origin-bottom duration-200 min-w-[3rem] md:min-w-auto" style={{ zIndex: index }}>
-                      <Card 
-                        card={card} 
-                        isPlayable={isMyTurn && isCardValid(card, topCard, gameState.currentColor)} 
-                        onClick={() => onPlayCard(card)} 
-                        disabled={!isMyTurn} 
-                        size="md" 
-                      />
-                  </div>
-              ))}
+              <div className="flex items-end justify-start md:justify-center space-x-[-2rem] md:-space-x-8 hover:space-x-[-1rem] md:hover:space-x-1 transition-all duration-300 px-4 w-full overflow-x-auto overflow-y-hidden py-4 min-h-[130px] md:min-h-[140px] scrollbar-thin scrollbar-thumb-slate-700">
+                  {view.myHand.map((card, index) => (
+                      <div key={card.id} className="transform transition-transform hover:-translate-y-6 md:hover:-translate-y-10 hover:z-50 origin-bottom duration-200 min-w-[3rem] md:min-w-auto" style={{ zIndex: index }}>
+                          <Card 
+                            card={card} 
+                            isPlayable={giving || canPlayCard(card, playContext)} 
+                            onClick={() => onHandCardClick(card)} 
+                            disabled={!isMyTurn && !canPlayCard(card, playContext)} 
+                            size="md" 
+                          />
+                      </div>
+                  ))}
+              </div>
           </div>
-      </div>
+      )}
       
-      {gameState.status === GameStatus.GAME_OVER && (
+      {view.status === GameStatus.ROUND_OVER && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4">
+            <div className="bg-slate-800 p-6 md:p-10 rounded-2xl text-center border-4 border-blue-500 shadow-2xl w-full max-w-lg">
+                <h2 className="text-2xl md:text-4xl font-black text-white mb-2">Fim da Rodada {view.roundNumber}</h2>
+                <p className="text-lg text-slate-300 mb-6">
+                    {winnerNames} venceu a rodada (+{view.roundHistory[view.roundHistory.length - 1]?.points || 0})
+                </p>
+
+                <div className="mb-6">
+                    <Scoreboard players={view.players} scores={view.scores} roundHistory={view.roundHistory} targetScore={view.targetScore} myPlayerId={myPlayerId} />
+                </div>
+
+                {(networkRole === 'HOST' || networkRole === 'OFFLINE' || isRoomOwner) ? (
+                    <button onClick={onNextRound} className="bg-blue-600 hover:bg-blue-500 px-6 py-3 rounded-full font-bold text-lg transition-transform hover:scale-110 shadow-lg">
+                        Próxima Rodada
+                    </button>
+                ) : (
+                    <div className="text-sm text-slate-400">Aguardando host...</div>
+                )}
+            </div>
+        </div>
+      )}
+
+      {view.status === GameStatus.GAME_OVER && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-md p-4">
             <div className="bg-slate-800 p-6 md:p-10 rounded-2xl text-center border-4 border-yellow-500 shadow-2xl w-full max-w-lg">
-                <h2 className="text-3xl md:text-5xl font-black text-white mb-4">{gameState.winner?.id === myPlayerId ? 'VITÓRIA! 🏆' : 'FIM DE JOGO 💀'}</h2>
-                <p className="text-lg md:text-xl text-slate-300 mb-8">{gameState.winner?.name} venceu!</p>
+                <h2 className="text-3xl md:text-5xl font-black text-white mb-4">{weWon ? 'VITÓRIA! 🏆' : 'FIM DE JOGO 💀'}</h2>
+                <p className="text-lg md:text-xl text-slate-300 mb-1">{winnerNames} venceu a partida!</p>
+                {view.seed !== null && <p className="text-xs text-slate-500 font-mono mb-6">Semente: {view.seed}</p>}
+
+                <div className="mb-6">
+                    <Scoreboard players={view.players} scores={view.scores} roundHistory={view.roundHistory} targetScore={view.targetScore} myPlayerId={myPlayerId} />
+                </div>
                 
                 <div className="flex flex-col md:flex-row gap-4 justify-center">
-                    {(networkRole === 'HOST' || networkRole === 'OFFLINE') ? (
+                    {(networkRole === 'HOST' || networkRole === 'OFFLINE' || isRoomOwner) ? (
                         <button onClick={onResetGame} className="bg-blue-600 hover:bg-blue-500 px-6 py-3 rounded-full font-bold text-lg transition-transform hover:scale-110 shadow-lg">
                             Jogar Novamente
                         </button>
@@ -233,6 +422,12 @@ const GameInterface: React.FC<GameInterfaceProps> = ({
                         </div>
                     )}
 
+                    {onExportLog && (
+                        <button onClick={onExportLog} className="bg-slate-600 hover:bg-slate-500 px-6 py-3 rounded-full font-bold text-lg transition-transform hover:scale-110 shadow-lg">
+                            Exportar Replay
+                        </button>
+                    )}
+
                     <button onClick={() => window.location.reload()} className="bg-red-600 hover:bg-red-500 px-6 py-3 rounded-full font-bold text-lg transition-transform hover:scale-110 shadow-lg">
                         Sair
                     </button>
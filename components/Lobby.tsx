@@ -1,27 +1,94 @@
 import React from 'react';
-import { NetworkRole } from '../types';
+import { BotDifficulty, DeckPresetId, NetworkRole, RuleSet, TeamRules, TransportKind } from '../types';
+import { BOT_DIFFICULTIES, BOT_DIFFICULTY_LABELS, DECK_PRESETS, DECK_PRESET_IDS, DEFAULT_BOT_DIFFICULTY, DEFAULT_TEAM_RULES, MAX_SEATS, MIN_SEATS, PLAYER_NAME_MAX_LENGTH, TEAM_NAMES, TEAM_SEATS, TARGET_SCORE_OPTIONS, TURN_TIME_OPTIONS } from '../constants';
+
+const TRANSPORT_LABELS: Partial<Record<TransportKind, string>> = {
+  peer: 'P2P',
+  polling: 'HTTP',
+  websocket: 'Servidor',
+};
+
+const TEAM_RULE_LABELS: Record<keyof TeamRules, string> = {
+  showPartnerHand: 'Parceiros veem as cartas um do outro',
+  passCard: 'Passar uma carta ao parceiro por rodada',
+};
+
+const RULE_LABELS: Record<keyof RuleSet, string> = {
+  stackDrawCards: 'Acumular +2/+4',
+  sevenZero: '7 troca mão / 0 gira mãos',
+  jumpIn: 'Carona (carta idêntica fora da vez)',
+  drawUntilPlayable: 'Comprar até poder jogar',
+  forcePlayAfterDraw: 'Jogar a carta comprada',
+  mercyRule: 'Misericórdia (25 cartas elimina)',
+};
 
 interface LobbyProps {
-  view: 'MENU' | 'CREATE' | 'JOIN' | 'WAITING_HOST' | 'WAITING_CLIENT';
+  view: 'MENU' | 'CREATE' | 'JOIN' | 'WAITING_HOST' | 'WAITING_CLIENT' | 'LOCAL' | 'REPLAY' | 'PROFILE';
   playerName: string;
+  // Avatar from the local profile
+  avatar: string;
   setPlayerName: (name: string) => void;
   joinCode: string;
   setJoinCode: (code: string) => void;
   roomCode: string;
   connectionStatus: string;
-  connectedPeers: {id: string, name: string}[];
+  // In seat order
+  connectedPeers: {id: string, name: string, avatar?: string, ready?: boolean, flagged?: boolean, spectator?: boolean}[];
   networkRole: NetworkRole;
+  // Set when the game server hosts the room and this client opened it
+  isRoomOwner: boolean;
+  // This client joined to watch
+  isSpectator: boolean;
+  transportKind: TransportKind;
+  setTransportKind: (kind: TransportKind) => void;
+  serverUrl: string;
+  setServerUrl: (url: string) => void;
+  targetScore: number;
+  setTargetScore: (score: number) => void;
+  // Seconds per turn, 0 = no limit
+  turnTimeLimit: number;
+  setTurnTimeLimit: (seconds: number) => void;
+  // Spectators see every hand (for streaming or coaching)
+  revealHands: boolean;
+  setRevealHands: (reveal: boolean) => void;
+  rules: RuleSet;
+  setRules: (rules: RuleSet) => void;
+  seedInput: string;
+  setSeedInput: (seed: string) => void;
+  // One entry per bot seat, in the order bots fill the table
+  botDifficulties: BotDifficulty[];
+  setBotDifficulties: (difficulties: BotDifficulty[]) => void;
+  // Humans allowed to take a seat; joiners past it are turned away
+  maxPlayers: number;
+  setMaxPlayers: (max: number) => void;
+  myPlayerId: string;
+  onToggleReady: () => void;
+  onKickPlayer: (playerId: string, ban: boolean) => void;
+  onReorderSeats: (order: string[]) => void;
+  // Pass-and-play: the other humans sharing this device, after the one named above
+  localPlayers: string[];
+  setLocalPlayers: (names: string[]) => void;
+  // Team mode (2v2): seats alternate teams; null = everyone for themselves
+  teams: TeamRules | null;
+  setTeams: (teams: TeamRules | null) => void;
+  deck: DeckPresetId;
+  setDeck: (deck: DeckPresetId) => void;
   
   // Actions
   onCreateRoom: () => void;
   onJoinRoom: () => void;
-  onStartGame: (mode: '1v1' | '1v3' | '1v4') => void;
+  onSpectateRoom: () => void;
+  // Room whose seat this browser can take back after a reload
+  resumeRoomCode?: string;
+  onResumeSession: () => void;
+  onStartGame: () => void;
   setView: (view: any) => void;
 }
 
 const Lobby: React.FC<LobbyProps> = ({
   view,
   playerName,
+  avatar,
   setPlayerName,
   joinCode,
   setJoinCode,
@@ -29,11 +96,166 @@ const Lobby: React.FC<LobbyProps> = ({
   connectionStatus,
   connectedPeers,
   networkRole,
+  isRoomOwner,
+  isSpectator,
+  transportKind,
+  setTransportKind,
+  serverUrl,
+  setServerUrl,
+  targetScore,
+  setTargetScore,
+  turnTimeLimit,
+  setTurnTimeLimit,
+  revealHands,
+  setRevealHands,
+  rules,
+  setRules,
+  seedInput,
+  setSeedInput,
+  botDifficulties,
+  setBotDifficulties,
+  maxPlayers,
+  setMaxPlayers,
+  myPlayerId,
+  onToggleReady,
+  onKickPlayer,
+  onReorderSeats,
+  localPlayers,
+  setLocalPlayers,
+  teams,
+  setTeams,
+  deck,
+  setDeck,
   onCreateRoom,
   onJoinRoom,
+  onSpectateRoom,
+  resumeRoomCode,
+  onResumeSession,
   onStartGame,
   setView
 }) => {
+  // Seat being dragged in the waiting room
+  const [draggedId, setDraggedId] = React.useState<string | null>(null);
+
+  // Whether the table can be dealt: enough seats, and exactly four for teams
+  const seatsFit = (humanCount: number) => {
+    const seats = Math.min(MAX_SEATS, humanCount + botDifficulties.length);
+    return seats >= MIN_SEATS && (!teams || seats === TEAM_SEATS);
+  };
+
+  // Score, clock, house rules, deck, teams, seed and bots: shared by the room host and a local match
+  const renderMatchSettings = (humanCount: number) => {
+    const botCount = Math.min(botDifficulties.length, MAX_SEATS - humanCount);
+    return (
+      <>
+          <div className="flex items-center justify-between bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-2">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Pontos para vencer</span>
+              <div className="flex gap-2">
+                  {TARGET_SCORE_OPTIONS.map(score => (
+                      <button key={score} onClick={() => setTargetScore(score)} className={`px-3 py-1 rounded font-mono text-sm font-bold ${targetScore === score ? 'bg-yellow-500 text-black' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                          {score}
+                      </button>
+                  ))}
+              </div>
+          </div>
+          <div className="flex items-center justify-between bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-2">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Tempo por jogada</span>
+              <div className="flex gap-2">
+                  {TURN_TIME_OPTIONS.map(seconds => (
+                      <button key={seconds} onClick={() => setTurnTimeLimit(seconds)} className={`px-3 py-1 rounded font-mono text-sm font-bold ${turnTimeLimit === seconds ? 'bg-yellow-500 text-black' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                          {seconds === 0 ? '∞' : `${seconds}s`}
+                      </button>
+                  ))}
+              </div>
+          </div>
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-2 text-left">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Regras da Casa</span>
+              <div className="mt-2 flex flex-col gap-1">
+                  {(Object.keys(RULE_LABELS) as (keyof RuleSet)[]).map(key => {
+                      // A variant deck locks the rules it plays with
+                      const forced = DECK_PRESETS[deck].rules?.[key];
+                      return (
+                          <label key={key} className={`flex items-center gap-2 text-sm text-slate-300 ${forced === undefined ? 'cursor-pointer' : 'opacity-60'}`}>
+                              <input type="checkbox" checked={forced ?? rules[key]} disabled={forced !== undefined} onChange={(e) => setRules({ ...rules, [key]: e.target.checked })} className="accent-yellow-500" />
+                              {RULE_LABELS[key]}
+                          </label>
+                      );
+                  })}
+              </div>
+          </div>
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-2 text-left">
+              <div className="flex items-center justify-between">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Baralho</span>
+                  <div className="flex gap-2">
+                      {DECK_PRESET_IDS.map(id => (
+                          <button key={id} onClick={() => setDeck(id)} className={`px-3 py-1 rounded text-xs font-bold ${deck === id ? 'bg-yellow-500 text-black' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                              {DECK_PRESETS[id].name}
+                          </button>
+                      ))}
+                  </div>
+              </div>
+              <p className="mt-1 text-xs text-slate-500">{DECK_PRESETS[deck].description}</p>
+          </div>
+          <div className="flex items-center justify-between bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-2">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Semente</span>
+              <input
+                  className="w-32 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-right font-mono text-sm text-white focus:ring-2 focus:ring-yellow-500 outline-none"
+                  value={seedInput}
+                  onChange={(e) => setSeedInput(e.target.value.replace(/[^0-9]/g, ''))}
+                  placeholder="aleatória"
+                  maxLength={10}
+              />
+          </div>
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-2 text-left">
+              <div className="flex items-center justify-between">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Bots</span>
+                  <div className="flex items-center gap-2">
+                      <button onClick={() => setBotDifficulties(botDifficulties.slice(0, -1))} disabled={botDifficulties.length === 0} className="w-7 h-7 rounded bg-slate-700 hover:bg-slate-600 font-bold disabled:opacity-40">−</button>
+                      <span className="font-mono font-bold w-4 text-center">{botDifficulties.length}</span>
+                      <button onClick={() => setBotDifficulties([...botDifficulties, DEFAULT_BOT_DIFFICULTY])} disabled={botDifficulties.length >= MAX_SEATS - 1} className="w-7 h-7 rounded bg-slate-700 hover:bg-slate-600 font-bold disabled:opacity-40">+</button>
+                  </div>
+              </div>
+              <div className="mt-2 flex flex-col gap-1">
+                  {botDifficulties.map((difficulty, i) => (
+                      <div key={i} className={`flex items-center justify-between text-sm text-slate-300 ${i >= botCount ? 'opacity-40' : ''}`}>
+                          <span>Bot {i + 1}</span>
+                          <div className="flex gap-1">
+                              {BOT_DIFFICULTIES.map(option => (
+                                  <button key={option} onClick={() => setBotDifficulties(botDifficulties.map((d, j) => j === i ? option : d))} className={`px-2 py-0.5 rounded text-xs font-bold ${difficulty === option ? 'bg-yellow-500 text-black' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                                      {BOT_DIFFICULTY_LABELS[option]}
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                  ))}
+              </div>
+          </div>
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-2 text-left">
+              <label className="flex items-center justify-between cursor-pointer">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Equipes (2x2)</span>
+                  <input type="checkbox" checked={!!teams} onChange={(e) => setTeams(e.target.checked ? DEFAULT_TEAM_RULES : null)} className="accent-yellow-500" />
+              </label>
+              {teams && (
+                  <div className="mt-2 flex flex-col gap-1">
+                      <p className="text-xs text-slate-500">Lugares 1 e 3 contra 2 e 4. Os pontos são da equipe.</p>
+                      {(Object.keys(TEAM_RULE_LABELS) as (keyof TeamRules)[]).map(key => (
+                          <label key={key} className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                              <input type="checkbox" checked={teams[key]} onChange={(e) => setTeams({ ...teams, [key]: e.target.checked })} className="accent-yellow-500" />
+                              {TEAM_RULE_LABELS[key]}
+                          </label>
+                      ))}
+                      {humanCount + botCount !== TEAM_SEATS && (
+                          <p className="text-xs text-red-400">As equipes precisam de exatamente {TEAM_SEATS} lugares (agora: {humanCount + botCount}).</p>
+                      )}
+                  </div>
+              )}
+          </div>
+          {botCount < botDifficulties.length && (
+              <p className="text-xs text-slate-500">A mesa tem {MAX_SEATS} lugares: só {botCount} bot(s) entram com {humanCount} humano(s).</p>
+          )}
+      </>
+    );
+  };
 
   if (view === 'MENU') {
     return (
@@ -46,15 +268,39 @@ const Lobby: React.FC<LobbyProps> = ({
           <span className="block text-lg md:text-xl text-slate-400 mt-2 font-normal tracking-widest uppercase">Multiplayer Online</span>
         </div>
         <div className="bg-slate-800 p-6 md:p-8 rounded-2xl shadow-2xl w-full max-w-md border border-slate-700 space-y-4">
-          <input 
-              className="w-full bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
-              value={playerName}
-              onChange={(e) => setPlayerName(e.target.value)}
-              placeholder="Digite seu apelido"
-              maxLength={12}
-          />
+          <div className="flex gap-2">
+              <button onClick={() => setView('PROFILE')} title="Trocar avatar" className="text-3xl bg-slate-900 border border-slate-600 rounded-lg px-2 hover:bg-slate-700">{avatar}</button>
+              <input 
+                  className="flex-1 min-w-0 bg-slate-900 border border-slate-600 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+                  value={playerName}
+                  onChange={(e) => setPlayerName(e.target.value)}
+                  placeholder="Digite seu apelido"
+                  maxLength={PLAYER_NAME_MAX_LENGTH}
+              />
+          </div>
+          <div className="flex gap-2">
+              {(Object.keys(TRANSPORT_LABELS) as TransportKind[]).map(kind => (
+                  <button key={kind} onClick={() => setTransportKind(kind)} className={`flex-1 py-2 rounded-lg text-sm font-bold ${transportKind === kind ? 'bg-yellow-500 text-black' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                      {TRANSPORT_LABELS[kind]}
+                  </button>
+              ))}
+          </div>
+          {transportKind === 'websocket' && (
+              <input
+                  className="w-full bg-slate-900 border border-slate-600 rounded-lg p-2 font-mono text-sm text-white focus:ring-2 focus:ring-yellow-500 outline-none"
+                  value={serverUrl}
+                  onChange={(e) => setServerUrl(e.target.value.trim())}
+                  placeholder="ws://localhost:8787"
+              />
+          )}
+          {resumeRoomCode && (
+              <button onClick={onResumeSession} className="w-full bg-yellow-500 hover:bg-yellow-400 text-black font-bold py-4 rounded-xl shadow-lg active:scale-95 transition-transform">Voltar à Sala {resumeRoomCode}</button>
+          )}
           <button onClick={onCreateRoom} className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-4 rounded-xl shadow-lg active:scale-95 transition-transform">Criar Sala (Host)</button>
           <button onClick={() => setView('JOIN')} className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl shadow-lg active:scale-95 transition-transform">Entrar na Sala (Código)</button>
+          <button onClick={() => setView('LOCAL')} className="w-full bg-purple-600 hover:bg-purple-500 text-white font-bold py-3 rounded-xl shadow-lg active:scale-95 transition-transform">Jogar Neste Aparelho</button>
+          <button onClick={() => setView('REPLAY')} className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 rounded-xl shadow-lg active:scale-95 transition-transform">Assistir Replay</button>
+          <button onClick={() => setView('PROFILE')} className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 rounded-xl shadow-lg active:scale-95 transition-transform">Perfil e Estatísticas</button>
         </div>
       </div>
     );
@@ -73,52 +319,141 @@ const Lobby: React.FC<LobbyProps> = ({
                   maxLength={4}
               />
               <div className="text-center text-sm text-yellow-400 mb-4 h-6">{connectionStatus}</div>
-              <button onClick={onJoinRoom} className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl shadow-lg mb-4">Conectar</button>
+              <button onClick={onJoinRoom} className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl shadow-lg mb-3">Conectar</button>
+              <button onClick={onSpectateRoom} className="w-full bg-slate-700 hover:bg-slate-600 text-white font-bold py-3 rounded-xl shadow-lg mb-4">👁 Assistir</button>
               <button onClick={() => setView('MENU')} className="w-full text-slate-400 hover:text-white">Voltar</button>
           </div>
        </div>
     );
   }
 
+  if (view === 'LOCAL') {
+    const humanCount = 1 + localPlayers.length;
+    const botCount = Math.min(botDifficulties.length, MAX_SEATS - humanCount);
+    const inputClass = "flex-1 bg-slate-900 border border-slate-600 rounded-lg p-2 text-white focus:ring-2 focus:ring-purple-500 outline-none";
+    return (
+       <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 p-4">
+           <div className="text-center w-full max-w-md space-y-3">
+               <h2 className="text-2xl font-bold mb-2">Jogar Neste Aparelho</h2>
+               <p className="text-sm text-slate-400">Com mais de um humano, o aparelho passa de mão em mão e a mão de cada um fica escondida entre as vezes.</p>
+               <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 text-left">
+                   <h3 className="text-xs font-bold text-slate-500 mb-3 uppercase tracking-wider border-b border-slate-700 pb-2 flex justify-between">
+                       <span>Jogadores</span>
+                       <span>{humanCount}/{MAX_SEATS}</span>
+                   </h3>
+                   <div className="flex flex-col gap-2">
+                       <input className={inputClass} value={playerName} onChange={(e) => setPlayerName(e.target.value)} placeholder="Jogador 1" maxLength={PLAYER_NAME_MAX_LENGTH} />
+                       {localPlayers.map((name, i) => (
+                           <div key={i} className="flex gap-2">
+                               <input className={inputClass} value={name} onChange={(e) => setLocalPlayers(localPlayers.map((n, j) => j === i ? e.target.value : n))} placeholder={`Jogador ${i + 2}`} maxLength={PLAYER_NAME_MAX_LENGTH} />
+                               <button onClick={() => setLocalPlayers(localPlayers.filter((_, j) => j !== i))} title="Remover" className="px-3 rounded-lg bg-slate-700 hover:bg-red-600 font-bold">✕</button>
+                           </div>
+                       ))}
+                       {humanCount < MAX_SEATS && (
+                           <button onClick={() => setLocalPlayers([...localPlayers, ''])} className="py-2 rounded-lg border border-dashed border-slate-600 text-slate-400 hover:text-white hover:border-slate-400 text-sm font-bold">+ Adicionar jogador</button>
+                       )}
+                   </div>
+               </div>
+               {renderMatchSettings(humanCount)}
+               <button onClick={onStartGame} disabled={!seatsFit(humanCount)} className="w-full bg-purple-600 hover:bg-purple-500 disabled:bg-slate-700 disabled:text-slate-400 py-3 rounded-lg font-bold text-sm shadow-lg flex justify-between px-4">
+                   <span>Iniciar Partida</span>
+                   <span className="text-purple-200">{humanCount} humano(s) + {botCount} bot(s)</span>
+               </button>
+               <button onClick={() => setView('MENU')} className="w-full text-slate-400 hover:text-white">Voltar</button>
+           </div>
+       </div>
+    );
+  }
+
   if (view === 'WAITING_HOST' || view === 'WAITING_CLIENT') {
+    const seatedPeers = connectedPeers.filter(p => !p.spectator);
+    const managesRoom = networkRole === 'HOST' || isRoomOwner;
+    const me = connectedPeers.find(p => p.id === myPlayerId);
+    const botCount = Math.min(botDifficulties.length, MAX_SEATS - seatedPeers.length);
+    const everyoneReady = seatedPeers.every(p => p.ready);
+    const canStart = everyoneReady && seatsFit(seatedPeers.length);
+
+    const dropOn = (targetId: string) => {
+        if (!draggedId || draggedId === targetId) return;
+        const order = connectedPeers.map(p => p.id).filter(id => id !== draggedId);
+        order.splice(order.indexOf(targetId), 0, draggedId);
+        onReorderSeats(order);
+        setDraggedId(null);
+    };
+
     return (
        <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 p-4">
            <div className="text-center w-full max-w-md">
                <h2 className="text-xl md:text-2xl font-bold mb-2">Código da Sala: <span className="text-green-400 font-mono text-3xl mx-2 tracking-widest">{roomCode}</span></h2>
                
                <div className="bg-slate-800/50 p-4 rounded-lg w-full mx-auto mb-6 min-h-[150px] border border-slate-700">
-                  <h3 className="text-xs font-bold text-slate-500 mb-3 uppercase tracking-wider border-b border-slate-700 pb-2">Jogadores Conectados</h3>
+                  <h3 className="text-xs font-bold text-slate-500 mb-3 uppercase tracking-wider border-b border-slate-700 pb-2 flex justify-between">
+                      <span>Jogadores Conectados</span>
+                      <span>{seatedPeers.length}/{maxPlayers}</span>
+                  </h3>
                   <div className="flex flex-col gap-2">
                       {connectedPeers.length === 0 && networkRole === 'CLIENT' && (
                           <div className="text-slate-500 italic animate-pulse">Conectando...</div>
                       )}
                       {connectedPeers.map(p => (
-                           <div key={p.id} className="text-white font-bold flex items-center justify-between bg-slate-700/50 px-3 py-2 rounded">
-                               <span>{p.name}</span>
-                               <span className="text-xs bg-green-500 text-black px-2 py-0.5 rounded-full font-bold">PRONTO</span>
+                           <div
+                               key={p.id}
+                               draggable={managesRoom}
+                               onDragStart={() => setDraggedId(p.id)}
+                               onDragEnd={() => setDraggedId(null)}
+                               onDragOver={(e) => managesRoom && e.preventDefault()}
+                               onDrop={() => dropOn(p.id)}
+                               className={`text-white font-bold flex items-center justify-between gap-2 bg-slate-700/50 px-3 py-2 rounded ${managesRoom ? 'cursor-move' : ''} ${draggedId === p.id ? 'opacity-50' : ''}`}
+                           >
+                               <span className="flex-1 text-left truncate">{managesRoom && <span className="text-slate-500 mr-2">⠿</span>}{p.avatar && <span className="mr-1">{p.avatar}</span>}{p.name}</span>
+                               {teams && !p.spectator && <span className={`text-xs px-2 py-0.5 rounded-full font-bold ${seatedPeers.indexOf(p) % 2 === 0 ? 'bg-sky-600' : 'bg-orange-600'}`}>{TEAM_NAMES[seatedPeers.indexOf(p) % 2]}</span>}
+                               {p.flagged && <span className="text-xs bg-red-600 text-white px-2 py-0.5 rounded-full font-bold" title="Enviou jogadas inválidas ou em nome de outro jogador">SUSPEITO</span>}
+                               {p.spectator
+                                   ? <span className="text-xs bg-purple-500 text-white px-2 py-0.5 rounded-full font-bold">ESPECTADOR</span>
+                                   : p.ready
+                                   ? <span className="text-xs bg-green-500 text-black px-2 py-0.5 rounded-full font-bold">PRONTO</span>
+                                   : <span className="text-xs bg-slate-600 text-slate-300 px-2 py-0.5 rounded-full font-bold">AGUARDANDO</span>}
+                               {managesRoom && p.id !== myPlayerId && (
+                                   <span className="flex gap-1">
+                                       <button onClick={() => onKickPlayer(p.id, false)} title="Remover" className="text-xs bg-slate-600 hover:bg-red-600 rounded px-1.5 py-0.5">✕</button>
+                                       <button onClick={() => onKickPlayer(p.id, true)} title="Banir" className="text-xs bg-slate-600 hover:bg-red-600 rounded px-1.5 py-0.5">⛔</button>
+                                   </span>
+                               )}
                            </div>
                       ))}
                   </div>
                </div>
 
-               {networkRole === 'HOST' && (
+               {managesRoom && (
                    <div className="w-full space-y-3">
-                      <button onClick={() => onStartGame('1v1')} className="w-full bg-blue-600 hover:bg-blue-500 py-3 rounded-lg font-bold text-sm shadow-lg flex justify-between px-4">
-                          <span>Duelo 1v1</span>
-                          <span className="text-blue-200">{connectedPeers.length > 1 ? 'Vs Humano' : 'Vs Bot'}</span>
-                      </button>
-                      <button onClick={() => onStartGame('1v3')} className="w-full bg-blue-600 hover:bg-blue-500 py-3 rounded-lg font-bold text-sm shadow-lg flex justify-between px-4">
-                          <span>4 Jogadores</span>
-                          <span className="text-blue-200">{connectedPeers.length}/4 Humanos</span>
-                      </button>
-                      <button onClick={() => onStartGame('1v4')} className="w-full bg-blue-600 hover:bg-blue-500 py-3 rounded-lg font-bold text-sm shadow-lg flex justify-between px-4">
-                          <span>5 Jogadores</span>
-                          <span className="text-blue-200">{connectedPeers.length}/5 Humanos</span>
+                      <div className="flex items-center justify-between bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-2">
+                          <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Máx. jogadores</span>
+                          <div className="flex gap-2">
+                              {Array.from({ length: MAX_SEATS - MIN_SEATS + 1 }, (_, i) => MIN_SEATS + i).map(max => (
+                                  <button key={max} onClick={() => setMaxPlayers(max)} className={`px-3 py-1 rounded font-mono text-sm font-bold ${maxPlayers === max ? 'bg-yellow-500 text-black' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}>
+                                      {max}
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                      <label className="flex items-center justify-between bg-slate-800/50 border border-slate-700 rounded-lg px-4 py-2 cursor-pointer">
+                          <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Espectadores veem as mãos</span>
+                          <input type="checkbox" checked={revealHands} onChange={(e) => setRevealHands(e.target.checked)} className="accent-yellow-500" />
+                      </label>
+                      {renderMatchSettings(seatedPeers.length)}
+                      <button onClick={onStartGame} disabled={!canStart} className="w-full bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-400 py-3 rounded-lg font-bold text-sm shadow-lg flex justify-between px-4">
+                          <span>{everyoneReady ? 'Iniciar Partida' : 'Aguardando todos ficarem prontos'}</span>
+                          <span className="text-blue-200">{seatedPeers.length} humano(s) + {botCount} bot(s)</span>
                       </button>
                    </div>
                )}
-               {networkRole === 'CLIENT' && (
-                  <div className="mt-4 text-slate-400 animate-pulse">Aguardando o host iniciar a partida...</div>
+               {networkRole === 'CLIENT' && !isRoomOwner && !isSpectator && me && (
+                  <button onClick={onToggleReady} className={`w-full py-3 rounded-lg font-bold text-sm shadow-lg ${me.ready ? 'bg-slate-700 hover:bg-slate-600 text-slate-200' : 'bg-green-600 hover:bg-green-500 text-white'}`}>
+                      {me.ready ? 'Não estou pronto' : 'Estou pronto'}
+                  </button>
+               )}
+               {networkRole === 'CLIENT' && !isRoomOwner && (
+                  <div className="mt-4 text-slate-400 animate-pulse">{isSpectator ? 'Você vai assistir. Aguardando o host iniciar a partida...' : 'Aguardando o host iniciar a partida...'}</div>
                )}
            </div>
        </div>
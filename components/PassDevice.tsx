@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface PassDeviceProps {
+  // Who the device goes to next
+  nextPlayerName: string;
+  nextPlayerAvatar: string;
+  lastAction: string;
+  // The player handing the device over went down to one card and has not called UNO yet
+  canCallUno: boolean;
+  onCallUno: () => void;
+  onReady: () => void;
+}
+
+// Hot-seat privacy screen: covers the table between two humans' turns so nobody sees the other's hand
+const PassDevice: React.FC<PassDeviceProps> = ({ nextPlayerName, nextPlayerAvatar, lastAction, canCallUno, onCallUno, onReady }) => (
+  <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 p-4 text-center">
+    <div className="bg-slate-800 p-8 rounded-2xl shadow-2xl w-full max-w-sm border border-slate-700 space-y-6">
+      {canCallUno && (
+        <button onClick={onCallUno} className="w-full bg-gradient-to-br from-red-600 to-red-700 hover:from-red-500 hover:to-red-600 text-white font-black italic py-3 rounded-xl border-2 border-white animate-bounce">
+          UNO! (antes de passar)
+        </button>
+      )}
+      <div className="text-slate-400 text-sm uppercase tracking-wider">Passe o aparelho para</div>
+      <div className="text-6xl">{nextPlayerAvatar}</div>
+      <div className="text-3xl font-black text-yellow-400">{nextPlayerName}</div>
+      {lastAction && <div className="text-sm text-slate-400 italic">{lastAction}</div>}
+      <button onClick={onReady} className="w-full bg-green-600 hover:bg-green-500 text-white font-bold py-4 rounded-xl shadow-lg active:scale-95 transition-transform">
+        Sou {nextPlayerName}, mostrar minha mão
+      </button>
+    </div>
+  </div>
+);
+
+export default PassDevice;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { MatchLog, MatchRecord, PlayerProfile } from '../types';
+import { AVATARS, COLOR_LABELS } from '../constants';
+import { averageHandPoints, favouriteColor } from '../services/profileStats';
+
+interface ProfileScreenProps {
+  profile: PlayerProfile;
+  history: MatchRecord[]; // Newest first
+  onChangeAvatar: (avatar: string) => void;
+  onOpenReplay: (log: MatchLog) => void;
+  onExit: () => void;
+}
+
+// Avatar picker, lifetime stats and the list of past matches on this device
+const ProfileScreen: React.FC<ProfileScreenProps> = ({ profile, history, onChangeAvatar, onOpenReplay, onExit }) => {
+  const { stats } = profile;
+  const color = favouriteColor(stats);
+  const winRate = stats.gamesPlayed > 0 ? Math.round((stats.wins / stats.gamesPlayed) * 100) : 0;
+  const tiles = [
+    { label: 'Partidas', value: stats.gamesPlayed },
+    { label: 'Vitórias', value: `${stats.wins} (${winRate}%)` },
+    { label: 'Pontos na mão ao fim da rodada', value: averageHandPoints(stats) },
+    { label: 'Cor favorita', value: color ? COLOR_LABELS[color] : '—' },
+    { label: '+4 jogados', value: stats.wild4Played },
+    { label: 'Rodadas', value: stats.roundsFinished },
+  ];
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-900 overflow-hidden">
+      <div className="h-14 flex items-center justify-between px-4 bg-slate-900/50 border-b border-slate-700">
+        <span className="font-black tracking-tighter">{profile.avatar} {profile.name}</span>
+        <button onClick={onExit} className="text-slate-400 hover:text-white text-sm">Voltar</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6 max-w-2xl w-full mx-auto">
+        <div>
+          <h3 className="text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider border-b border-slate-700 pb-1">Avatar</h3>
+          <div className="grid grid-cols-10 gap-1">
+            {AVATARS.map(avatar => (
+              <button key={avatar} onClick={() => onChangeAvatar(avatar)} className={`text-2xl rounded-lg p-1 ${profile.avatar === avatar ? 'bg-yellow-500' : 'bg-slate-800 hover:bg-slate-700'}`}>
+                {avatar}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider border-b border-slate-700 pb-1">Estatísticas</h3>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+            {tiles.map(tile => (
+              <div key={tile.label} className="bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2">
+                <div className="text-[10px] text-slate-400 uppercase tracking-wider">{tile.label}</div>
+                <div className="text-xl font-black text-yellow-400">{tile.value}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider border-b border-slate-700 pb-1">Histórico</h3>
+          {history.length === 0 && <p className="text-sm text-slate-500">Nenhuma partida terminada ainda.</p>}
+          <div className="flex flex-col gap-2">
+            {history.map(record => (
+              <div key={record.id} className={`rounded-lg p-3 border ${record.won ? 'border-green-600 bg-green-500/10' : 'border-slate-700 bg-slate-800/50'}`}>
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-bold">{record.won ? 'VITÓRIA' : 'DERROTA'} · {record.rounds} rodada(s)</span>
+                  <span className="text-xs text-slate-400">{new Date(record.finishedAt).toLocaleString('pt-BR')}</span>
+                </div>
+                <div className="flex flex-wrap gap-x-3 text-xs text-slate-300 mt-1">
+                  {record.players.map((p, i) => (
+                    <span key={i} className={p.isMe ? 'font-bold text-white' : ''}>{p.avatar} {p.name} <span className="font-mono text-yellow-400">{p.score}</span></span>
+                  ))}
+                </div>
+                {record.log
+                  ? <button onClick={() => onOpenReplay(record.log!)} className="mt-2 px-3 py-1 rounded bg-slate-700 hover:bg-slate-600 text-xs font-bold">▶ Ver replay</button>
+                  : <p className="mt-2 text-[10px] text-slate-500">Sem replay: só quem hospedou a partida guarda o registro.</p>}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileScreen;
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { GameEvent, GameStatus, MatchLog, Player } from '../types';
+import { parseMatchLog, replayMatch } from '../services/matchLog';
+import { CARD_DEFINITIONS, COLOR_LABELS } from '../constants';
+import Card from './Card';
+
+interface ReplayViewerProps {
+  initialLog?: MatchLog | null;
+  onExit: () => void;
+}
+
+const describeEvent = (event: GameEvent, players: Player[]): string => {
+  const name = (id: string) => players.find(p => p.id === id)?.name || '???';
+  switch (event.type) {
+    case 'CARD_PLAYED': return `${name(event.playerId)} jogou ${event.card.type === 'number' ? event.card.value : CARD_DEFINITIONS[event.card.type].label} (${COLOR_LABELS[event.color]})`;
+    case 'CARDS_DRAWN': return `${name(event.playerId)} comprou ${event.count}`;
+    case 'DECK_RESHUFFLED': return `Descarte embaralhado (${event.count} cartas)`;
+    case 'DIRECTION_CHANGED': return 'Sentido invertido';
+    case 'JUMPED_IN': return `${name(event.playerId)} entrou de carona`;
+    case 'DRAW_STACKED': return `${name(event.playerId)} acumulou +${event.total}`;
+    case 'HANDS_SWAPPED': return `${name(event.playerId)} trocou de mão com ${name(event.targetPlayerId)}`;
+    case 'HANDS_ROTATED': return 'Todas as mãos giraram';
+    case 'TURN_PASSED': return `${name(event.playerId)} passou a vez`;
+    case 'WILD4_CHALLENGED': return `${name(event.playerId)} desafiou o +4 de ${name(event.targetPlayerId)} (${event.success ? 'acertou' : 'errou'})`;
+    case 'PLAYER_SKIPPED': return `${name(event.playerId)} perdeu a vez`;
+    case 'ALL_SKIPPED': return `${name(event.playerId)} pulou todos e jogou de novo`;
+    case 'COLOR_DISCARDED': return `${name(event.playerId)} descartou mais ${event.count} (${COLOR_LABELS[event.color]})`;
+    case 'UNO_CALLED': return `${name(event.playerId)} gritou UNO`;
+    case 'UNO_CAUGHT': return `${name(event.catcherId)} pegou ${name(event.playerId)} sem UNO`;
+    case 'PLAYER_ELIMINATED': return `${name(event.playerId)} foi eliminado com ${event.handCount} cartas`;
+    case 'CARD_GIVEN': return `${name(event.playerId)} passou uma carta para ${name(event.targetPlayerId)}`;
+    case 'ROUND_WON': return `${name(event.playerId)} venceu a rodada (+${event.points})`;
+    case 'GAME_WON': return `${name(event.playerId)} venceu a partida`;
+    case 'ACTION_REJECTED': return `Ação rejeitada: ${event.reason}`;
+  }
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ initialLog = null, onExit }) => {
+  const [log, setLog] = useState<MatchLog | null>(initialLog);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [error, setError] = useState('');
+
+  const frames = useMemo(() => (log ? replayMatch(log) : []), [log]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    try {
+      setLog(parseMatchLog(await file.text()));
+      setFrameIndex(0);
+      setError('');
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  if (!log) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 p-4">
+        <div className="bg-slate-800 p-8 rounded-2xl shadow-2xl w-full max-w-md border border-slate-700 text-center">
+          <h2 className="text-2xl font-bold mb-6">Assistir Replay</h2>
+          <input type="file" accept="application/json,.json" onChange={handleFile} className="w-full text-sm text-slate-300 mb-4" />
+          <div className="text-sm text-red-400 mb-4 h-5">{error}</div>
+          <button onClick={onExit} className="w-full text-slate-400 hover:text-white">Voltar</button>
+        </div>
+      </div>
+    );
+  }
+
+  const state = frames[frameIndex];
+  const entry = frameIndex > 0 ? log.entries[frameIndex - 1] : null;
+  const topCard = state.discardPile[state.discardPile.length - 1];
+  const last = frames.length - 1;
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-900 overflow-hidden">
+      <div className="h-14 flex items-center justify-between px-4 bg-slate-900/50 border-b border-slate-700">
+        <span className="font-black tracking-tighter">REPLAY · Rodada {state.roundNumber}</span>
+        <span className="text-xs font-mono text-slate-400">Semente {log.settings.seed}</span>
+        <button onClick={onExit} className="text-slate-400 hover:text-white text-sm">Sair</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-3">
+        <div className="flex items-center gap-6 justify-center">
+          {topCard && <Card card={topCard} size="md" />}
+          <div className="text-sm text-slate-300 space-y-1">
+            <div>Cor: <span className="font-bold">{COLOR_LABELS[state.currentColor]}</span></div>
+            <div>Sentido: {state.direction === 1 ? '↻' : '↺'}</div>
+            <div>Monte: {state.drawPile.length}</div>
+            {state.pendingDraw > 0 && <div className="text-red-400 font-bold">Acumulado: +{state.pendingDraw}</div>}
+          </div>
+        </div>
+
+        {state.players.map((p, i) => (
+          <div key={p.id} className={`rounded-lg p-2 border ${i === state.currentPlayerIndex && state.status === GameStatus.PLAYING ? 'border-yellow-400 bg-yellow-500/10' : 'border-slate-700 bg-slate-800/50'}`}>
+            <div className="flex justify-between text-sm font-bold mb-1">
+              <span>{p.avatar} {p.name} {p.isUno && <span className="text-yellow-400">UNO</span>}</span>
+              <span className="font-mono text-yellow-400">{state.scores[p.id] || 0} pts</span>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {p.hand.map(c => <Card key={c.id} card={c} size="sm" />)}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="border-t border-slate-700 bg-slate-900 p-3">
+        <div className="text-xs text-yellow-400 text-center min-h-[2rem] mb-2">
+          {entry?.kind === 'NEXT_ROUND' && 'Nova rodada distribuída'}
+          {entry?.kind === 'ACTION' && entry.events.map(e => describeEvent(e, state.players)).join(' · ')}
+          {!entry && 'Distribuição inicial'}
+        </div>
+        <div className="flex items-center justify-center gap-2">
+          <button onClick={() => setFrameIndex(0)} disabled={frameIndex === 0} className="px-3 py-2 bg-slate-700 rounded disabled:opacity-40">⏮</button>
+          <button onClick={() => setFrameIndex(i => Math.max(0, i - 1))} disabled={frameIndex === 0} className="px-3 py-2 bg-slate-700 rounded disabled:opacity-40">◀</button>
+          <span className="font-mono text-sm w-24 text-center">{frameIndex}/{last}</span>
+          <button onClick={() => setFrameIndex(i => Math.min(last, i + 1))} disabled={frameIndex === last} className="px-3 py-2 bg-slate-700 rounded disabled:opacity-40">▶</button>
+          <button onClick={() => setFrameIndex(last)} disabled={frameIndex === last} className="px-3 py-2 bg-slate-700 rounded disabled:opacity-40">⏭</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
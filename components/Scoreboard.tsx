@@ -0,0 +1,57 @@
+import React from 'react';
+import { PublicPlayer, RoundResult } from '../types';
+import { TEAM_NAMES } from '../constants';
+
+interface ScoreboardProps {
+  players: PublicPlayer[];
+  scores: Record<string, number>;
+  roundHistory: RoundResult[];
+  targetScore: number;
+  myPlayerId: string;
+}
+
+const Scoreboard: React.FC<ScoreboardProps> = ({ players, scores, roundHistory, targetScore, myPlayerId }) => {
+  // Team mode: partners share their score, so there is one row per team
+  const rows = players.some(p => p.team !== undefined)
+    ? TEAM_NAMES.map((teamName, team) => {
+        const members = players.filter(p => p.team === team);
+        return { key: `team-${team}`, label: `${teamName} · ${members.map(p => `${p.avatar} ${p.name}`).join('  ')}`, score: scores[members[0]?.id] || 0, isMine: members.some(p => p.id === myPlayerId) };
+      })
+    : players.map(p => ({ key: p.id, label: `${p.avatar} ${p.name}`, score: scores[p.id] || 0, isMine: p.id === myPlayerId }));
+  const standings = rows.sort((a, b) => b.score - a.score);
+  const nameOf = (id: string) => players.find(p => p.id === id)?.name || '???';
+
+  return (
+    <div className="text-left space-y-4">
+      <div>
+        <h3 className="text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider border-b border-slate-700 pb-1">
+          Placar (meta: {targetScore})
+        </h3>
+        <div className="flex flex-col gap-1">
+          {standings.map(row => (
+            <div key={row.key} className={`flex items-center justify-between px-3 py-1.5 rounded ${row.isMine ? 'bg-blue-600/30' : 'bg-slate-700/50'}`}>
+              <span className="font-bold text-sm">{row.label}</span>
+              <span className="font-mono text-yellow-400">{row.score}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {roundHistory.length > 0 && (
+        <div>
+          <h3 className="text-xs font-bold text-slate-500 mb-2 uppercase tracking-wider border-b border-slate-700 pb-1">Rodadas</h3>
+          <div className="flex flex-col gap-1 max-h-32 overflow-y-auto">
+            {roundHistory.map(r => (
+              <div key={r.round} className="flex justify-between text-xs text-slate-300 px-3">
+                <span>#{r.round} · {r.team !== undefined ? `${TEAM_NAMES[r.team]} (${nameOf(r.winnerId)})` : nameOf(r.winnerId)}</span>
+                <span className="font-mono">+{r.points}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Scoreboard;
@@ -1,6 +1,17 @@
-import { CardColor } from "./types";
+import { ActionRejection, BotDifficulty, CardColor, CardDefinition, CardType, DeckDefinition, DeckPresetId, RemovalReason, RuleSet, TeamRules } from "./types";
 
 export const COLORS: CardColor[] = ['red', 'blue', 'green', 'yellow'];
+// Every color a deck may use (wild cards are 'black')
+export const ALL_COLORS: CardColor[] = [...COLORS, 'purple', 'orange'];
+export const COLOR_LABELS: Record<CardColor, string> = {
+  red: 'Vermelho',
+  blue: 'Azul',
+  green: 'Verde',
+  yellow: 'Amarelo',
+  purple: 'Roxo',
+  orange: 'Laranja',
+  black: 'Preto',
+};
 
 export const AVATARS = [
   '🐶', '🐱', '🐭', '🐹', '🐰', '🦊', '🐻', '🐼', '🐨', '🐯', '🦁', '🐮',
@@ -13,8 +24,201 @@ export const BOT_NAMES = [
   'GlitchGhost', 'AlgoRhythm'
 ];
 
+// Official scoring: number cards are worth their face value
 export const POINTS = {
-  NUMBER: 5,
   ACTION: 20,
   WILD: 50,
-};
\ No newline at end of file
+};
+
+export const CARD_DEFINITIONS: Record<CardType, CardDefinition> = {
+  number: { label: 'número', symbol: '', corner: '', wild: false, effect: 'none', points: 0, attack: 0 },
+  skip: { label: 'Pular', symbol: '🚫', corner: 'S', wild: false, effect: 'skip', points: POINTS.ACTION, attack: 2 },
+  reverse: { label: 'Inverter', symbol: '🔁', corner: 'R', wild: false, effect: 'reverse', points: POINTS.ACTION, attack: 1 },
+  draw2: { label: '+2', symbol: '+2', corner: 'D', wild: false, effect: 'draw', drawAmount: 2, points: POINTS.ACTION, attack: 3 },
+  wild: { label: 'Coringa', symbol: 'COR', corner: 'W', wild: true, effect: 'none', points: POINTS.WILD, attack: 0 },
+  wild4: { label: '+4', symbol: '+4 COR', corner: 'W', wild: true, effect: 'wildDraw', drawAmount: 4, points: POINTS.WILD, attack: 4 },
+  skipAll: { label: 'Pular Todos', symbol: '⏭️', corner: 'A', wild: false, effect: 'skipAll', points: POINTS.ACTION, attack: 2 },
+  drawColor: { label: 'Compra Cor', symbol: '+🎨', corner: 'C', wild: false, effect: 'drawColor', points: POINTS.ACTION, attack: 3 },
+  discardColor: { label: 'Descarta Cor', symbol: '🗑️', corner: 'X', wild: false, effect: 'discardColor', points: POINTS.ACTION, attack: 0 },
+  reverse4: { label: 'Inverte +4', symbol: '🔁 +4', corner: 'R', wild: true, effect: 'reverseDraw', drawAmount: 4, points: POINTS.WILD, attack: 4 },
+  draw6: { label: '+6', symbol: '+6 COR', corner: 'W', wild: true, effect: 'draw', drawAmount: 6, points: POINTS.WILD, attack: 5 },
+  draw10: { label: '+10', symbol: '+10 COR', corner: 'W', wild: true, effect: 'draw', drawAmount: 10, points: POINTS.WILD, attack: 6 },
+  colorRoulette: { label: 'Roleta de Cor', symbol: '🎰', corner: 'W', wild: true, effect: 'drawColor', points: POINTS.WILD, attack: 3 },
+};
+
+// One 0 and two of 1-9 per color, as in the official deck
+const CLASSIC_NUMBERS = [1, 2, 2, 2, 2, 2, 2, 2, 2, 2];
+const CLASSIC_ACTIONS = { skip: 2, reverse: 2, draw2: 2 };
+
+export const DECK_PRESETS: Record<DeckPresetId, DeckDefinition> = {
+  classic: {
+    id: 'classic',
+    name: 'Clássico',
+    description: '108 cartas, 4 cores',
+    colors: COLORS,
+    numbers: CLASSIC_NUMBERS,
+    actions: CLASSIC_ACTIONS,
+    wilds: { wild: 4, wild4: 4 },
+  },
+  extended: {
+    id: 'extended',
+    name: 'Estendido',
+    description: '162 cartas, 6 cores (roxo e laranja)',
+    colors: ALL_COLORS,
+    numbers: CLASSIC_NUMBERS,
+    actions: CLASSIC_ACTIONS,
+    wilds: { wild: 6, wild4: 6 },
+  },
+  chaos: {
+    id: 'chaos',
+    name: 'Caos',
+    description: 'Clássico + Pular Todos, Compra Cor e Descarta Cor',
+    colors: COLORS,
+    numbers: CLASSIC_NUMBERS,
+    actions: { ...CLASSIC_ACTIONS, skipAll: 1, drawColor: 1, discardColor: 1 },
+    wilds: { wild: 4, wild4: 4 },
+  },
+  // No Mercy: bigger draws that always stack, and nobody holds more than MERCY_HAND_LIMIT cards
+  noMercy: {
+    id: 'noMercy',
+    name: 'Sem Piedade',
+    description: '+6, +10, Inverte +4 e Roleta de Cor; acúmulo sempre ligado e eliminação com 25 cartas',
+    colors: COLORS,
+    numbers: CLASSIC_NUMBERS,
+    actions: { ...CLASSIC_ACTIONS, skipAll: 1, discardColor: 1 },
+    wilds: { wild: 4, reverse4: 8, draw6: 4, draw10: 4, colorRoulette: 8 },
+    rules: { stackDrawCards: true, mercyRule: true },
+  },
+};
+export const DECK_PRESET_IDS = Object.keys(DECK_PRESETS) as DeckPresetId[];
+export const DEFAULT_DECK: DeckPresetId = 'classic';
+
+export const INITIAL_HAND_SIZE = 7;
+// Mercy rule: a hand this big is out of the round
+export const MERCY_HAND_LIMIT = 25;
+
+// Seats at the table, humans and bots together
+export const MIN_SEATS = 2;
+export const MAX_SEATS = 5;
+export const DEFAULT_BOT_COUNT = 3;
+
+// Team mode: two teams of two, partners across the table (seats 1 & 3 against 2 & 4)
+export const TEAM_SEATS = 4;
+export const TEAM_NAMES = ['Equipe A', 'Equipe B'];
+export const DEFAULT_TEAM_RULES: TeamRules = { showPartnerHand: false, passCard: false };
+// Handing a card over may not leave the giver on their last two
+export const GIVE_CARD_MIN_HAND = 3;
+
+export const UNO_PENALTY = 2;
+
+// How long a bot "thinks" before playing
+export const BOT_TURN_DELAY_MS = 1500;
+
+// Bot reliability (0-1) when it comes to UNO calls
+export const BOT_UNO_CALL_CHANCE = 0.7;
+export const BOT_UNO_CATCH_CHANCE = 0.5;
+
+export const BOT_JUMP_IN_CHANCE = 0.6;
+
+// Wild Draw Four challenge
+export const WILD4_CHALLENGE_PENALTY = 2; // Extra cards for a failed challenge
+export const BOT_WILD4_BLUFF_CHANCE = 0.15;
+export const BOT_WILD4_CHALLENGE_CHANCE = 0.4;
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'normal', 'hard', 'expert'];
+export const BOT_DIFFICULTY_LABELS: Record<BotDifficulty, string> = {
+  easy: 'Fácil',
+  normal: 'Normal',
+  hard: 'Difícil',
+  expert: 'Especialista',
+};
+export const DEFAULT_BOT_DIFFICULTY: BotDifficulty = 'normal';
+// Hard bots start attacking once an opponent is down to this many cards
+export const BOT_THREAT_HAND_SIZE = 3;
+
+// Expert (Monte Carlo) bots: thinking time per move and how far each rollout may run
+export const BOT_EXPERT_TIME_BUDGET_MS = 900;
+export const BOT_EXPERT_FALLBACK_BUDGET_MS = 250; // Blocks the UI, so kept short
+export const BOT_EXPERT_ROLLOUT_DEPTH = 120;
+
+export const DEFAULT_RULES: RuleSet = {
+  stackDrawCards: false,
+  sevenZero: false,
+  jumpIn: false,
+  drawUntilPlayable: false,
+  forcePlayAfterDraw: false,
+  mercyRule: false,
+};
+
+// Reconnection: how long a dropped player's seat is held, and how the client retries
+export const RECONNECT_TIMEOUT_MS = 60000;
+export const RECONNECT_RETRY_MS = 3000;
+export const RECONNECT_ATTEMPTS = 5;
+
+// Bumped whenever NetworkMessage changes in a way older peers cannot read
+export const PROTOCOL_VERSION = 11;
+// Longest chat message a peer may send
+export const CHAT_MAX_LENGTH = 200;
+export const PLAYER_NAME_MAX_LENGTH = 12;
+export const DEFAULT_PLAYER_NAME = 'Jogador 1';
+// Oldest matches are dropped from the profile's history past this many
+export const MATCH_HISTORY_LIMIT = 30;
+
+// Host-side anti-cheat: token buckets per player (burst size, refill per second)
+// and how many suspicious rejections get a player flagged
+export const ACTION_RATE_LIMIT = { burst: 8, perSecond: 4 };
+export const CHAT_RATE_LIMIT = { burst: 5, perSecond: 1 };
+export const CHEAT_FLAG_THRESHOLD = 3;
+
+export const REJECTION_LABELS: Record<ActionRejection, string> = {
+  GAME_NOT_ACTIVE: 'a partida não está em andamento',
+  UNKNOWN_PLAYER: 'jogador desconhecido',
+  NOT_YOUR_TURN: 'não é sua vez',
+  CARD_NOT_IN_HAND: 'essa carta não está na sua mão',
+  INVALID_CARD: 'essa carta não pode ser jogada agora',
+  MISSING_COLOR: 'escolha uma cor',
+  MISSING_TARGET: 'escolha com quem trocar',
+  ALREADY_DREW: 'você já comprou nesta vez',
+  CANNOT_PASS: 'não é possível passar agora',
+  CANNOT_CALL_UNO: 'não é hora de gritar UNO',
+  NOTHING_TO_CATCH: 'ninguém para pegar',
+  NO_WILD4_PENDING: 'não há +4 para desafiar',
+  CANNOT_GIVE_CARD: 'não é possível passar carta ao parceiro agora',
+  NOT_YOUR_SEAT: 'ação em nome de outro jogador',
+};
+
+export const REMOVAL_LABELS: Record<RemovalReason, string> = {
+  ROOM_FULL: 'A sala está cheia.',
+  KICKED: 'Você foi removido da sala pelo host.',
+  BANNED: 'Você foi banido desta sala.',
+  SESSION_TAKEN: 'Sua vaga foi retomada em outra conexão.',
+};
+
+// Authoritative Node game server (see server/gameServer.ts)
+export const GAME_SERVER_PORT = 8787;
+export const DEFAULT_GAME_SERVER_URL = `ws://localhost:${GAME_SERVER_PORT}`;
+
+// HTTP polling transport (/api/game)
+export const POLL_INTERVAL_MS = 700;
+// A peer that has not polled for this long is considered gone
+export const POLL_PEER_TIMEOUT_MS = 8000;
+// A room whose host has been quiet this long is deleted (after the window a successor has to claim it)
+export const POLL_ROOM_EXPIRY_MS = 60000;
+// Largest request body /api/game reads, and how many client packets may wait for the host
+export const POLL_MAX_BODY_BYTES = 512 * 1024;
+export const POLL_MAX_PENDING_ACTIONS = 200;
+
+// Host migration: how often the successor gets a fresh snapshot, and how the
+// successor retries claiming the room id while the broker still holds it for the old host
+export const HOST_SNAPSHOT_INTERVAL_MS = 2000;
+export const HOST_CLAIM_RETRY_MS = 2000;
+export const HOST_CLAIM_ATTEMPTS = 5;
+
+export const DEFAULT_TARGET_SCORE = 500;
+export const TARGET_SCORE_OPTIONS = [100, 250, 500];
+
+// Turn clock, in seconds (0 = no limit). A player who runs out of time this many
+// turns in a row is marked away and a bot takes the seat.
+export const TURN_TIME_OPTIONS = [0, 15, 30, 60];
+export const DEFAULT_TURN_TIME_LIMIT = 0;
+export const TURN_TIMEOUT_AFK_LIMIT = 2;
\ No newline at end of file
@@ -0,0 +1,23 @@
+import { Worker } from "node:worker_threads";
+import { createExpertMoveClient } from "../services/expertClient";
+
+// Expert bots for every room on the server share one worker thread (server/expertWorker.ts).
+// If it cannot start, the move falls back to the short in-process search.
+
+// `npm run server` runs the sources through tsx (a runtime dependency for that reason),
+// whose loader worker threads do not inherit
+const workerSource = (url: URL) =>
+  `import('tsx/esm/api').then(({ register }) => { register(); return import(${JSON.stringify(url.href)}); })`;
+
+export const requestExpertMove = createExpertMoveClient(({ onResponse, onCrash }) => {
+  const worker = new Worker(workerSource(new URL('./expertWorker.ts', import.meta.url)), { eval: true });
+  worker.on('message', onResponse);
+  worker.on('error', (error) => {
+    console.error('Expert bot worker failed:', error);
+    worker.terminate();
+    onCrash();
+  });
+  // Never what keeps the process alive
+  worker.unref();
+  return { post: request => worker.postMessage(request) };
+});
@@ -0,0 +1,13 @@
+import { parentPort } from "node:worker_threads";
+import { searchBestMove } from "../services/monteCarlo";
+import { createRng } from "../services/random";
+import { ExpertRequest, ExpertResponse } from "../services/expertClient";
+
+// The game server's counterpart of services/expertBot.worker.ts: searches run here so an
+// expert bot thinking never stalls the other rooms on the process
+parentPort?.on('message', (request: ExpertRequest) => {
+  const { id, state, botIndex, seed, budgetMs } = request;
+  const move = searchBestMove(state, botIndex, createRng(seed).next, budgetMs);
+  const response: ExpertResponse = { id, cardId: move ? move.card.id : null, wildColor: move?.wildColor };
+  parentPort?.postMessage(response);
+});
@@ -0,0 +1,91 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { POLL_MAX_BODY_BYTES, POLL_MAX_PENDING_ACTIONS, POLL_PEER_TIMEOUT_MS, POLL_ROOM_EXPIRY_MS } from "../constants";
+import { PollResult } from "../types";
+import { createGameApi, createGameApiHandler } from "./gameApi";
+import { createMemoryStorage } from "./roomStorage";
+
+const setup = async () => {
+  const storage = createMemoryStorage();
+  const api = createGameApi(storage);
+  const post = (type: string, payload: unknown, roomCode = 'ABCD') =>
+    api.handle('POST', new URLSearchParams({ roomCode }), { type, payload });
+  const poll = (peerId: string, token: string, after = 0) =>
+    api.handle('GET', new URLSearchParams({ roomCode: 'ABCD', peerId, token, after: String(after) }), null);
+  const tokenOf = async (request: Promise<{ body: unknown }>) => ((await request).body as { token: string }).token;
+
+  const hostToken = await tokenOf(post('OPEN_ROOM', { hostId: 'host' }));
+  const clientToken = await tokenOf(post('JOIN_ROOM', { peerId: 'ana' }));
+  return { storage, api, post, poll, hostToken, clientToken };
+};
+
+describe('/api/game', () => {
+  beforeEach(() => { vi.useFakeTimers({ toFake: ['Date'] }); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('relays a client packet to the host, stamped with who sent it', async () => {
+    const { post, poll, hostToken, clientToken } = await setup();
+    expect((await post('SEND_ACTION', { from: 'ana', token: clientToken, packet: { hello: 1 } })).status).toBe(200);
+    const { status, body } = await poll('host', hostToken);
+    expect(status).toBe(200);
+    expect((body as PollResult).envelopes).toEqual([{ seq: 1, from: 'ana', packet: { hello: 1 } }]);
+    // Acknowledged packets are not handed out again
+    expect(((await poll('host', hostToken, 1)).body as PollResult).envelopes).toEqual([]);
+  });
+
+  it('delivers host packets only to the client they are for', async () => {
+    const { post, poll, hostToken, clientToken } = await setup();
+    const bruno = ((await post('JOIN_ROOM', { peerId: 'bruno' })).body as { token: string }).token;
+    await post('UPDATE_STATE', { from: 'host', token: hostToken, packets: [{ to: 'ana', packet: 'for ana' }] });
+    expect(((await poll('ana', clientToken)).body as PollResult).envelopes).toEqual([{ seq: 1, packet: 'for ana' }]);
+    expect(((await poll('bruno', bruno)).body as PollResult).envelopes).toEqual([]);
+  });
+
+  it('refuses anyone without the token handed out for that peer id', async () => {
+    const { post, poll, clientToken } = await setup();
+    expect((await poll('host', clientToken)).status).toBe(403);
+    expect((await post('SEND_ACTION', { from: 'ana', token: 'guess', packet: 1 })).status).toBe(403);
+    expect((await post('UPDATE_STATE', { from: 'host', token: clientToken, packets: [] })).status).toBe(403);
+    expect((await post('LEAVE', { peerId: 'host', token: clientToken })).status).toBe(403);
+    expect((await post('JOIN_ROOM', { peerId: 'ana' })).status).toBe(409);
+  });
+
+  it('stops queueing for a host that is gone or not keeping up', async () => {
+    const { post, clientToken } = await setup();
+    for (let i = 0; i < POLL_MAX_PENDING_ACTIONS; i++) await post('SEND_ACTION', { from: 'ana', token: clientToken, packet: i });
+    expect((await post('SEND_ACTION', { from: 'ana', token: clientToken, packet: 'one more' })).status).toBe(429);
+
+    vi.advanceTimersByTime(POLL_PEER_TIMEOUT_MS + 1);
+    expect((await post('SEND_ACTION', { from: 'ana', token: clientToken, packet: 'late' })).status).toBe(410);
+  });
+
+  it('lets a new host take the code once the old one went quiet', async () => {
+    const { post, poll, hostToken } = await setup();
+    expect((await post('OPEN_ROOM', { hostId: 'other' })).status).toBe(409);
+    vi.advanceTimersByTime(POLL_PEER_TIMEOUT_MS + 1);
+    expect((await post('OPEN_ROOM', { hostId: 'other' })).status).toBe(201);
+    expect((await poll('host', hostToken)).status).toBe(403);
+  });
+
+  it('deletes rooms whose host has been quiet too long', async () => {
+    const { storage, api } = await setup();
+    vi.advanceTimersByTime(POLL_ROOM_EXPIRY_MS + 1);
+    await api.handle('GET', new URLSearchParams({ roomCode: 'WXYZ', peerId: 'x', token: 'y' }), null);
+    expect(await storage.list()).toEqual([]);
+  });
+
+  it('answers 413 to a body over the size limit', async () => {
+    const { api } = await setup();
+    const server = createServer(createGameApiHandler(api)).listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const body = JSON.stringify({ type: 'SEND_ACTION', payload: { packet: 'x'.repeat(POLL_MAX_BODY_BYTES) } });
+      const res = await fetch(`http://localhost:${port}/api/game?roomCode=ABCD`, { method: 'POST', body });
+      expect(res.status).toBe(413);
+    } finally {
+      server.close();
+    }
+  });
+});
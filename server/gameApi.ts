@@ -0,0 +1,258 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import { randomBytes } from "node:crypto";
+import { PollingRoom, PollResult } from "../types";
+import { POLL_MAX_BODY_BYTES, POLL_MAX_PENDING_ACTIONS, POLL_PEER_TIMEOUT_MS, POLL_ROOM_EXPIRY_MS } from "../constants";
+import { RoomStorage } from "./roomStorage";
+
+// /api/game: a mailbox relay for the polling transport (services/pollingTransport.ts).
+//   GET  ?roomCode&peerId&token&after   packets waiting for that peer; `after` acknowledges earlier ones
+//   POST ?roomCode {type, payload}
+//     OPEN_ROOM    {hostId}                 create the room (409 while another host is active) -> {token}
+//     JOIN_ROOM    {peerId}                 register a client (409 if the id is taken) -> {token}
+//     SEND_ACTION  {from, token, packet}    client -> host (410 once the host is gone, 429 while its queue is full)
+//     UPDATE_STATE {from, token, packets: {to, packet}[]}  host -> clients
+//     LEAVE        {peerId, token}          the host leaving closes the room
+// Every request after the first needs the secret token handed out for that peer id. Peer ids
+// are not secret (clients learn the host's), so the token is what proves who is asking.
+// Bodies over POLL_MAX_BODY_BYTES get 413, and rooms whose host stopped polling are deleted
+// after POLL_ROOM_EXPIRY_MS.
+
+export interface GameApiResponse {
+  status: number;
+  body: unknown;
+}
+
+type GameApiPost =
+  | { type: 'OPEN_ROOM'; payload: { hostId: string } }
+  | { type: 'JOIN_ROOM'; payload: { peerId: string } }
+  | { type: 'SEND_ACTION'; payload: { from: string; token: string; packet: unknown } }
+  | { type: 'UPDATE_STATE'; payload: { from: string; token: string; packets: { to: string; packet: unknown }[] } }
+  | { type: 'LEAVE'; payload: { peerId: string; token: string } };
+
+const ROOM_CODE = /^[A-Z0-9]{4}$/;
+
+const reply = (status: number, body: unknown = {}): GameApiResponse => ({ status, body });
+
+const createPeerToken = () => randomBytes(24).toString('hex');
+
+const isPeer = (room: PollingRoom, peerId: unknown, token: unknown): boolean =>
+  typeof peerId === 'string' && typeof token === 'string' && Object.prototype.hasOwnProperty.call(room.tokens, peerId) && room.tokens[peerId] === token;
+
+const isHostGone = (room: PollingRoom, now: number) => now - (room.lastSeen[room.hostId] ?? 0) > POLL_PEER_TIMEOUT_MS;
+
+// Clients that stopped polling are reported to the host like ones that left
+const expireClients = (room: PollingRoom, now: number) => {
+  Object.entries(room.lastSeen).forEach(([peerId, seen]) => {
+    if (peerId === room.hostId || now - seen <= POLL_PEER_TIMEOUT_MS) return;
+    delete room.lastSeen[peerId];
+    delete room.outbox[peerId];
+    delete room.tokens[peerId];
+    room.departed.push(peerId);
+  });
+};
+
+// Requests for the same room run one at a time, so read-modify-write never interleaves
+const createRoomLock = () => {
+  const tails = new Map<string, Promise<unknown>>();
+  return <T>(roomCode: string, task: () => Promise<T>): Promise<T> => {
+    const run = (tails.get(roomCode) ?? Promise.resolve()).then(task, task);
+    const tail = run.catch(() => undefined);
+    tails.set(roomCode, tail);
+    tail.then(() => { if (tails.get(roomCode) === tail) tails.delete(roomCode); });
+    return run;
+  };
+};
+
+export const createGameApi = (storage: RoomStorage) => {
+  const withRoomLock = createRoomLock();
+
+  // Only a leaving host deletes its room, so the ones it just abandoned are swept up here,
+  // at most once per POLL_PEER_TIMEOUT_MS and on the back of ordinary requests
+  let lastSweep = 0;
+  const sweep = async (now: number) => {
+    if (now - lastSweep < POLL_PEER_TIMEOUT_MS) return;
+    lastSweep = now;
+    try {
+      for (const roomCode of await storage.list()) {
+        await withRoomLock(roomCode, async () => {
+          const room = await storage.get(roomCode);
+          if (room && now - (room.lastSeen[room.hostId] ?? 0) > POLL_ROOM_EXPIRY_MS) await storage.delete(roomCode);
+        });
+      }
+    } catch (error) {
+      console.error('Error sweeping /api/game rooms:', error);
+    }
+  };
+
+  const poll = async (roomCode: string, peerId: string, token: string, after: number): Promise<GameApiResponse> => {
+    const room = await storage.get(roomCode);
+    if (!room) return reply(404, { error: 'room not found' });
+    if (room.departed.includes(peerId)) return reply(410, { error: 'left the room' });
+    if (!isPeer(room, peerId, token)) return reply(403, { error: 'unknown peer' });
+
+    const now = Date.now();
+    if (peerId === room.hostId) {
+      room.lastSeen[peerId] = now;
+      expireClients(room, now);
+      room.pendingActions = room.pendingActions.filter(e => e.seq > after);
+      const result: PollResult = { envelopes: room.pendingActions, departed: room.departed };
+      room.departed = [];
+      await storage.set(roomCode, room);
+      return reply(200, result);
+    }
+
+    if (isHostGone(room, now)) return reply(410, { error: 'host gone' });
+    room.lastSeen[peerId] = now;
+    const outbox = (room.outbox[peerId] ?? []).filter(e => e.seq > after);
+    room.outbox[peerId] = outbox;
+    await storage.set(roomCode, room);
+    const result: PollResult = { envelopes: outbox, departed: [] };
+    return reply(200, result);
+  };
+
+  const post = async (roomCode: string, request: GameApiPost): Promise<GameApiResponse> => {
+    const now = Date.now();
+    const room = await storage.get(roomCode);
+
+    if (request.type === 'OPEN_ROOM') {
+      // A host that stopped polling gives up the code (e.g. to a migrating successor)
+      if (room && !isHostGone(room, now)) return reply(409, { error: 'room code in use' });
+      const hostId = String(request.payload.hostId);
+      const token = createPeerToken();
+      await storage.set(roomCode, { hostId, seq: 0, tokens: { [hostId]: token }, lastSeen: { [hostId]: now }, pendingActions: [], outbox: {}, departed: [] });
+      return reply(201, { token });
+    }
+
+    if (!room) return reply(404, { error: 'room not found' });
+
+    if (request.type === 'JOIN_ROOM') {
+      const peerId = String(request.payload.peerId);
+      if (isHostGone(room, now)) return reply(410, { error: 'host gone' });
+      if (Object.prototype.hasOwnProperty.call(room.tokens, peerId) || room.departed.includes(peerId)) return reply(409, { error: 'peer id in use' });
+      const token = createPeerToken();
+      room.tokens[peerId] = token;
+      room.lastSeen[peerId] = now;
+      await storage.set(roomCode, room);
+      return reply(201, { token });
+    }
+
+    switch (request.type) {
+      case 'SEND_ACTION': {
+        const { from, token, packet } = request.payload;
+        if (room.departed.includes(from)) return reply(410, { error: 'left the room' });
+        if (from === room.hostId || !isPeer(room, from, token)) return reply(403, { error: 'unknown peer' });
+        if (isHostGone(room, now)) return reply(410, { error: 'host gone' });
+        if (room.pendingActions.length >= POLL_MAX_PENDING_ACTIONS) return reply(429, { error: 'host queue full' });
+        room.lastSeen[from] = now;
+        room.pendingActions.push({ seq: ++room.seq, from, packet });
+        break;
+      }
+      case 'UPDATE_STATE': {
+        const { from, token, packets } = request.payload;
+        if (from !== room.hostId || !isPeer(room, from, token)) return reply(403, { error: 'only the host publishes' });
+        if (!Array.isArray(packets)) return reply(400, { error: 'invalid body' });
+        room.lastSeen[room.hostId] = now;
+        packets.forEach(({ to, packet }) => {
+          if (to === room.hostId || !Object.prototype.hasOwnProperty.call(room.tokens, to)) return; // Gone already
+          (room.outbox[to] ??= []).push({ seq: ++room.seq, packet });
+        });
+        break;
+      }
+      case 'LEAVE': {
+        const { peerId, token } = request.payload;
+        if (!isPeer(room, peerId, token)) return reply(403, { error: 'unknown peer' });
+        if (peerId === room.hostId) {
+          await storage.delete(roomCode);
+          return reply(200);
+        }
+        delete room.lastSeen[peerId];
+        delete room.outbox[peerId];
+        delete room.tokens[peerId];
+        if (!room.departed.includes(peerId)) room.departed.push(peerId);
+        break;
+      }
+      default:
+        return reply(400, { error: 'unknown request type' });
+    }
+
+    await storage.set(roomCode, room);
+    return reply(200);
+  };
+
+  return {
+    handle: async (method: string, params: URLSearchParams, body: unknown): Promise<GameApiResponse> => {
+      const roomCode = (params.get('roomCode') || '').toUpperCase();
+      if (!ROOM_CODE.test(roomCode)) return reply(400, { error: 'invalid room code' });
+      await sweep(Date.now());
+
+      if (method === 'GET') {
+        const peerId = params.get('peerId');
+        const token = params.get('token');
+        if (!peerId || !token) return reply(400, { error: 'missing peerId or token' });
+        return withRoomLock(roomCode, () => poll(roomCode, peerId, token, Number(params.get('after')) || 0));
+      }
+      if (method === 'POST') {
+        const request = body as GameApiPost | null;
+        if (!request || typeof request.type !== 'string' || !request.payload) return reply(400, { error: 'invalid body' });
+        return withRoomLock(roomCode, () => post(roomCode, request));
+      }
+      return reply(405, { error: 'method not allowed' });
+    },
+  };
+};
+
+export type GameApi = ReturnType<typeof createGameApi>;
+
+// What readBody returns for a body over POLL_MAX_BODY_BYTES
+const TOO_LARGE = Symbol('too large');
+
+const readBody = (req: IncomingMessage & { body?: unknown }): Promise<unknown> => {
+  // Hosts like Vercel hand over the body already parsed
+  if (req.body !== undefined) {
+    const text = typeof req.body === 'string' ? req.body : JSON.stringify(req.body);
+    return Promise.resolve(Buffer.byteLength(text) > POLL_MAX_BODY_BYTES ? TOO_LARGE : JSON.parse(text));
+  }
+  if (Number(req.headers['content-length']) > POLL_MAX_BODY_BYTES) return Promise.resolve(TOO_LARGE);
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > POLL_MAX_BODY_BYTES) {
+        // Stop keeping it, but let the rest drain so the reply still gets through
+        chunks.length = 0;
+        return resolve(TOO_LARGE);
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      if (size > POLL_MAX_BODY_BYTES) return;
+      try {
+        const data = Buffer.concat(chunks).toString('utf8');
+        resolve(data ? JSON.parse(data) : null);
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+// Node http adapter, shared by api/game.ts and the vite dev server
+export const createGameApiHandler = (api: GameApi) => async (req: IncomingMessage, res: ServerResponse) => {
+  let response: GameApiResponse;
+  try {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const body = req.method === 'POST' ? await readBody(req) : null;
+    response = body === TOO_LARGE
+      ? reply(413, { error: 'body too large' })
+      : await api.handle(req.method || 'GET', url.searchParams, body);
+  } catch (error) {
+    console.error('Error handling /api/game:', error);
+    response = reply(400, { error: 'bad request' });
+  }
+  res.statusCode = response.status;
+  res.setHeader('Content-Type', 'application/json');
+  res.setHeader('Cache-Control', 'no-store');
+  res.end(JSON.stringify(response.body));
+};
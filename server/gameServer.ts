@@ -0,0 +1,35 @@
+import { WebSocketServer } from "ws";
+import { GAME_SERVER_PORT } from "../constants";
+import { CLOSE_ROOM_EXISTS, CLOSE_ROOM_NOT_FOUND } from "../services/webSocketTransport";
+import { GameRoom, createGameRoom } from "./room";
+
+// Authoritative game server. Clients connect to ws://host:port?room=CODE (add &create=1
+// to open a new room) and speak the same NetworkPacket protocol as a PeerJS host.
+
+const port = Number(process.env.PORT) || GAME_SERVER_PORT;
+const rooms = new Map<string, GameRoom>();
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', (socket, request) => {
+  const url = new URL(request.url || '/', 'http://localhost');
+  const code = (url.searchParams.get('room') || '').toUpperCase();
+  const create = url.searchParams.get('create') === '1';
+
+  if (!/^[A-Z0-9]{4}$/.test(code)) return socket.close(CLOSE_ROOM_NOT_FOUND, 'invalid room code');
+  if (create && rooms.has(code)) return socket.close(CLOSE_ROOM_EXISTS, 'room exists');
+
+  let room = rooms.get(code);
+  if (!room) {
+    if (!create) return socket.close(CLOSE_ROOM_NOT_FOUND, 'room not found');
+    room = createGameRoom(code, () => {
+      rooms.delete(code);
+      console.log(`Room ${code} closed (${rooms.size} open)`);
+    });
+    rooms.set(code, room);
+    console.log(`Room ${code} opened (${rooms.size} open)`);
+  }
+  room.join(socket);
+});
+
+server.on('listening', () => console.log(`Card Clash server listening on ws://localhost:${port}`));
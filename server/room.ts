@@ -0,0 +1,419 @@
+import { randomUUID } from "node:crypto";
+import { WebSocket } from "ws";
+import { ActionRejected, ActionRejection, ChatMessage, GameState, GameStatus, JoinRequest, MatchLog, NetworkMessage, NetworkPacket, PlayerAction, RemovalReason, StartGameRequest } from "../types";
+import { BOT_EXPERT_TIME_BUDGET_MS, BOT_TURN_DELAY_MS, MAX_SEATS, MIN_SEATS, RECONNECT_TIMEOUT_MS, TEAM_SEATS, TURN_TIMEOUT_AFK_LIMIT } from "../constants";
+import { abandonSeat, applyAction, createLobbyState, createSeats, dealGame, setPlayerAway, startNextRound } from "../services/gameEngine";
+import { getPlayerView, getSpectatorView } from "../services/playerView";
+import { appendAction, appendNextRound, createMatchLog } from "../services/matchLog";
+import { getBotStrategy } from "../services/botStrategy";
+import { BotReaction, botRandom, planBotTurn, planJumpIns, planTimedOutTurn, planUnoCatches } from "../services/botTurn";
+import { deriveSeed } from "../services/random";
+import { createSessionToken } from "../services/session";
+import { createViewSync } from "../services/stateSync";
+import { cleanPlayerName, protocolError, receivePacket, toPacket } from "../services/protocol";
+import { createActionGuard } from "../services/antiCheat";
+import { requestExpertMove } from "./expertBot";
+
+// A room on the game server. The server is the host: it owns the state, applies every
+// action through the engine and plays the bots. The first member to join owns the room
+// and is the only one who can start, advance or reset the match, and manage the lobby.
+
+interface Member {
+  id: string;
+  name: string;
+  avatar?: string;
+  socket: WebSocket | null; // null while a seated player is away
+  sessionToken: string;
+  flagged?: boolean;
+  spectator?: boolean; // Watches without a seat
+  ready?: boolean;
+}
+
+export interface GameRoom {
+  join: (socket: WebSocket) => void;
+}
+
+export const createGameRoom = (code: string, onEmpty: () => void): GameRoom => {
+  let state: GameState = createLobbyState();
+  let log: MatchLog | null = null;
+  let members: Member[] = [];
+  let ownerId: string | null = null;
+  let revealHands = false; // Spectators see every hand
+  let maxPlayers = MAX_SEATS;
+  // Lowercased names and session tokens the owner banned
+  const banned = new Set<string>();
+  let botTimer: ReturnType<typeof setTimeout> | undefined;
+  let botTurnToken = 0; // Bumped on every reschedule, so a search that finishes late is dropped
+  // Out-of-turn bot moves, replanned when the UNO window or the top card changes
+  let catchTimers: ReturnType<typeof setTimeout>[] = [];
+  let jumpInTimers: ReturnType<typeof setTimeout>[] = [];
+  let catchKey: string | null = null;
+  let jumpInKey = '';
+  let turnTimer: ReturnType<typeof setTimeout> | undefined;
+  let turnKey = '';
+  // Turns in a row each player let the clock run out
+  let timeoutStreaks: Record<string, number> = {};
+  const awayTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+  const viewSync = createViewSync();
+  const guard = createActionGuard();
+
+  const send = (socket: WebSocket | null, message: NetworkMessage) => {
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(toPacket(message)));
+  };
+  const broadcast = (message: NetworkMessage) => members.forEach(m => send(m.socket, message));
+
+  const lobbyList = () => members.map(m => ({
+    id: m.id,
+    name: m.id === ownerId ? `${m.name} (Host)` : m.name,
+    avatar: m.avatar,
+    ready: m.id === ownerId || !!m.ready, // Starting the match is the owner's ready
+    flagged: m.flagged,
+    spectator: m.spectator,
+  }));
+  const viewFor = (member: Member) => member.spectator ? getSpectatorView(state, revealHands) : getPlayerView(state, member.id);
+  const broadcastLobby = () => broadcast({ type: 'LOBBY_UPDATE', payload: { players: lobbyList(), ownerId, maxPlayers } });
+  // Patches on what each member was last sent (see services/stateSync.ts)
+  const broadcastState = () => members.forEach(m => {
+    if (!m.socket) return;
+    const message = viewSync.update(m.id, viewFor(m));
+    if (message) send(m.socket, message);
+  });
+
+  const systemMessage = (text: string) => {
+    const msg: ChatMessage = { id: randomUUID(), senderId: 'system', senderName: 'Sistema', text, timestamp: Date.now(), isSystem: true };
+    broadcast({ type: 'CHAT', payload: msg });
+  };
+
+  const setState = (next: GameState) => {
+    state = next;
+    broadcastState();
+    scheduleBotTurn();
+    scheduleBotReactions();
+    scheduleTurnClock();
+  };
+
+  // Returns why the engine refused the action, or null once it is applied
+  const dispatch = (action: PlayerAction): ActionRejection | null => {
+    const { state: next, events } = applyAction(state, action);
+    if (next === state) {
+      const rejected = events.find(e => e.type === 'ACTION_REJECTED');
+      return rejected?.type === 'ACTION_REJECTED' ? rejected.reason : null;
+    }
+    if (log) log = appendAction(log, action, events);
+    setState(next);
+    return null;
+  };
+
+  const reject = (member: Member, actionType: ActionRejected['actionType'], reason: ActionRejection) => {
+    send(member.socket, { type: 'ACTION_REJECTED', payload: { actionType, reason } });
+    recordStrike(member, reason);
+  };
+
+  const recordStrike = (member: Member, reason: ActionRejection) => {
+    if (!guard.strike(member.id, reason)) return;
+    member.flagged = true;
+    broadcastLobby();
+    systemMessage(`⚠ ${member.name} foi marcado como suspeito.`);
+  };
+
+  const scheduleBotTurn = () => {
+    clearTimeout(botTimer);
+    const token = ++botTurnToken;
+    if (state.status !== GameStatus.PLAYING) return;
+    const botIndex = state.currentPlayerIndex;
+    const bot = state.players[botIndex];
+    if (!bot?.isBot) return;
+
+    // Expert bots spend part of the pause searching, off the event loop
+    const isExpert = bot.difficulty === 'expert';
+    const turnCount = state.turnCount;
+    botTimer = setTimeout(async () => {
+      if (state.status !== GameStatus.PLAYING || state.turnCount !== turnCount || state.currentPlayerIndex !== botIndex || !state.players[botIndex].isBot) return;
+      const snapshot = state;
+      const random = botRandom(snapshot, bot.id, 'turn');
+      const move = isExpert
+        ? await requestExpertMove(snapshot, botIndex, deriveSeed(snapshot.seed, snapshot.turnCount, bot.id, 'expert'))
+        : getBotStrategy(bot.difficulty).chooseMove(snapshot, botIndex, random);
+      if (token !== botTurnToken) return;
+      planBotTurn(snapshot, botIndex, move, random).forEach(dispatch);
+    }, isExpert ? BOT_TURN_DELAY_MS - BOT_EXPERT_TIME_BUDGET_MS : BOT_TURN_DELAY_MS);
+  };
+
+  const startReactions = (reactions: BotReaction[]) =>
+    reactions.map(reaction => setTimeout(() => dispatch(reaction.action(state)), reaction.delay));
+
+  // Same reaction windows as the browser host (see App.tsx): UNO catches and jump-ins
+  const scheduleBotReactions = () => {
+    if (state.unoWindow !== catchKey) {
+      catchKey = state.unoWindow;
+      catchTimers.forEach(clearTimeout);
+      catchTimers = startReactions(planUnoCatches(state));
+    }
+    const key = `${state.status}:${state.discardPile[state.discardPile.length - 1]?.id ?? ''}`;
+    if (key !== jumpInKey) {
+      jumpInKey = key;
+      jumpInTimers.forEach(clearTimeout);
+      jumpInTimers = startReactions(planJumpIns(state));
+    }
+  };
+
+  // Restarted only when the turn actually changes hands, not on every state change within it
+  const scheduleTurnClock = () => {
+    const current = state.players[state.currentPlayerIndex];
+    const running = state.status === GameStatus.PLAYING && state.turnTimeLimit > 0 && !!current && !current.isBot;
+    const key = running ? `${state.roundNumber}:${state.turnCount}:${state.currentPlayerIndex}` : '';
+    if (key === turnKey) return;
+    turnKey = key;
+    clearTimeout(turnTimer);
+    if (running) turnTimer = setTimeout(handleTurnTimeout, state.turnTimeLimit * 1000);
+  };
+
+  const handleTurnTimeout = () => {
+    turnKey = '';
+    const player = state.players[state.currentPlayerIndex];
+    if (state.status !== GameStatus.PLAYING || !player || player.isBot) return;
+    planTimedOutTurn(state, state.currentPlayerIndex).forEach(dispatch);
+
+    const streak = (timeoutStreaks[player.id] ?? 0) + 1;
+    timeoutStreaks[player.id] = streak;
+    if (streak < TURN_TIMEOUT_AFK_LIMIT) {
+      systemMessage(`${player.name} ficou sem tempo. Jogada automática.`);
+      return;
+    }
+    timeoutStreaks[player.id] = 0;
+    setState(setPlayerAway(state, player.id, true));
+    systemMessage(`${player.name} está ausente. Um bot joga no lugar até a volta.`);
+  };
+
+  const isSeated = (member: Member) =>
+    state.status !== GameStatus.LOBBY && state.players.some(p => p.id === member.id && !p.isBot);
+
+  const removeMember = (member: Member) => {
+    members = members.filter(m => m !== member);
+    if (ownerId === member.id) ownerId = members.find(m => m.socket)?.id ?? null;
+    if (members.length === 0) {
+      clearTimeout(botTimer);
+      clearTimeout(turnTimer);
+      [...catchTimers, ...jumpInTimers].forEach(clearTimeout);
+      onEmpty();
+      return;
+    }
+    broadcastLobby();
+  };
+
+  const handleClose = (member: Member) => {
+    member.socket = null;
+    viewSync.forget(member.id);
+    if (!isSeated(member)) {
+      removeMember(member);
+      systemMessage("Um jogador desconectou.");
+      return;
+    }
+
+    // Same as a browser host: a bot keeps the seat warm until the player returns
+    setState(setPlayerAway(state, member.id, true));
+    systemMessage(`${member.name} desconectou. Um bot joga no lugar até a volta.`);
+    awayTimers[member.id] = setTimeout(() => {
+      delete awayTimers[member.id];
+      removeMember(member);
+      // The last one out closed the room: no seat to hand over, and no timers to start again
+      if (members.length === 0) return;
+      setState(abandonSeat(state, member.id));
+      systemMessage(`${member.name} não voltou a tempo. O bot fica com o lugar.`);
+    }, RECONNECT_TIMEOUT_MS);
+    if (ownerId === member.id) {
+      ownerId = members.find(m => m.socket)?.id ?? null;
+      broadcastLobby();
+    }
+  };
+
+  const accept = (member: Member) => {
+    send(member.socket, { type: 'JOIN_ACCEPT', payload: { playerId: member.id, sessionToken: member.sessionToken, players: lobbyList(), isOwner: member.id === ownerId, spectator: member.spectator } });
+    viewSync.forget(member.id);
+    send(member.socket, viewSync.full(member.id, viewFor(member)));
+  };
+
+  // Tells the socket why, then closes it once the message is out
+  const turnAway = (socket: WebSocket, reason: RemovalReason) => {
+    send(socket, { type: 'REMOVED', payload: { reason } });
+    setTimeout(() => socket.close(), 300);
+  };
+
+  const handleJoin = (socket: WebSocket, payload: JoinRequest): Member | null => {
+    const returning = payload.sessionToken && members.find(m => m.sessionToken === payload.sessionToken);
+    if (returning) {
+      clearTimeout(awayTimers[returning.id]);
+      delete awayTimers[returning.id];
+      // A token is only expected back once its seat lost the connection. If the old one is
+      // still open, it is hung up and the takeover counts against the seat.
+      const previous = returning.socket;
+      if (previous && previous !== socket && previous.readyState === WebSocket.OPEN) {
+        turnAway(previous, 'SESSION_TAKEN');
+        recordStrike(returning, 'NOT_YOUR_SEAT');
+      }
+      returning.socket = socket;
+      if (!ownerId) ownerId = returning.id;
+      accept(returning);
+      broadcastLobby();
+      if (isSeated(returning)) {
+        setState(setPlayerAway(state, returning.id, false));
+        systemMessage(`${returning.name} voltou!`);
+      }
+      return returning;
+    }
+
+    if (banned.has(cleanPlayerName(payload.name).toLowerCase()) || (payload.sessionToken && banned.has(payload.sessionToken))) {
+      turnAway(socket, 'BANNED');
+      return null;
+    }
+    // Once the cards are dealt there is no seat left to give: late joiners watch
+    const spectator = !!payload.spectate || state.status !== GameStatus.LOBBY;
+    if (!spectator && members.filter(m => !m.spectator).length >= maxPlayers) {
+      turnAway(socket, 'ROOM_FULL');
+      return null;
+    }
+    const member: Member = { id: randomUUID(), name: cleanPlayerName(payload.name), avatar: payload.avatar, socket, sessionToken: createSessionToken(), ...(spectator ? { spectator } : {}) };
+    members.push(member);
+    if (!ownerId) ownerId = member.id;
+    accept(member);
+    broadcastLobby();
+    systemMessage(spectator ? `${member.name} está assistindo.` : `${member.name} entrou!`);
+    return member;
+  };
+
+  const startGame = (request: StartGameRequest) => {
+    if (state.status !== GameStatus.LOBBY) return;
+    // Seats follow the lobby order, and everyone seated has to be ready
+    const humans = members.filter(m => !m.spectator && m.socket).map(m => ({ id: m.id, name: m.name, avatar: m.avatar, isHost: m.id === ownerId }));
+    if (members.some(m => !m.spectator && m.socket && m.id !== ownerId && !m.ready)) return;
+    const seatCount = Math.min(MAX_SEATS, humans.length + request.botDifficulties.length);
+    if (seatCount < MIN_SEATS || (request.teams && seatCount !== TEAM_SEATS)) return;
+    const seats = createSeats(humans, seatCount, request.botDifficulties);
+    const initial = dealGame(seats, { targetScore: request.targetScore, rules: request.rules, seed: request.seed, turnTimeLimit: request.turnTimeLimit, teams: request.teams, deck: request.deck });
+    log = createMatchLog(seats, { targetScore: initial.targetScore, rules: initial.rules, seed: initial.seed, turnTimeLimit: initial.turnTimeLimit, teams: initial.teams, deck: initial.deck });
+    timeoutStreaks = {};
+    revealHands = !!request.revealHands;
+    setState(initial);
+  };
+
+  const handlePacket = (member: Member, packet: NetworkPacket) => {
+    const isOwner = member.id === ownerId;
+    switch (packet.type) {
+      case 'PLAYER_ACTION': {
+        // Whoever sent it can only act for their own seat, and only within the rules
+        if (!guard.allowAction(member.id)) break;
+        const reason = guard.screenAction(member.id, packet.payload) ?? dispatch(packet.payload);
+        if (reason) reject(member, packet.payload.actionType, reason);
+        else timeoutStreaks[member.id] = 0;
+        break;
+      }
+      case 'RETURN_TO_SEAT':
+        // Only for a seat marked away while its player stayed connected
+        if (state.status === GameStatus.LOBBY || !state.players.some(p => p.id === member.id && p.isAway)) break;
+        setState(setPlayerAway(state, member.id, false));
+        systemMessage(`${member.name} voltou!`);
+        break;
+      case 'SET_READY':
+        if (state.status !== GameStatus.LOBBY || member.spectator) break;
+        member.ready = packet.payload.ready;
+        broadcastLobby();
+        break;
+      case 'KICK_PLAYER': {
+        const target = members.find(m => m.id === packet.payload.playerId);
+        if (!isOwner || !target || target === member || state.status !== GameStatus.LOBBY) break;
+        if (packet.payload.ban) {
+          banned.add(target.name.toLowerCase());
+          banned.add(target.sessionToken);
+        }
+        // Gone from the room first, so the closing socket is not reported as a drop
+        const socket = target.socket;
+        target.socket = null;
+        viewSync.forget(target.id);
+        guard.forget(target.id);
+        removeMember(target);
+        if (socket) turnAway(socket, packet.payload.ban ? 'BANNED' : 'KICKED');
+        systemMessage(packet.payload.ban ? `${target.name} foi banido da sala.` : `${target.name} foi removido da sala.`);
+        break;
+      }
+      case 'REORDER_SEATS': {
+        if (!isOwner || state.status !== GameStatus.LOBBY) break;
+        const { order } = packet.payload;
+        const rank = (m: Member) => order.includes(m.id) ? order.indexOf(m.id) : order.length;
+        members = [...members].sort((a, b) => rank(a) - rank(b));
+        broadcastLobby();
+        break;
+      }
+      case 'ROOM_SETTINGS':
+        if (!isOwner) break;
+        maxPlayers = packet.payload.maxPlayers;
+        broadcastLobby();
+        break;
+      case 'RESYNC_REQUEST':
+        send(member.socket, viewSync.full(member.id, viewFor(member)));
+        break;
+      case 'CHAT': {
+        if (!guard.allowChat(member.id)) break;
+        // Only the text comes from the sender; who said it is ours to fill in.
+        // The sender already shows its own message.
+        const msg: ChatMessage = { id: randomUUID(), senderId: member.id, senderName: member.name, text: packet.payload.text, timestamp: Date.now(), ...(member.spectator ? { isSpectator: true } : {}) };
+        members.forEach(m => m !== member && send(m.socket, { type: 'CHAT', payload: msg }));
+        break;
+      }
+      case 'START_GAME':
+        if (isOwner) startGame(packet.payload);
+        break;
+      case 'NEXT_ROUND': {
+        if (!isOwner) break;
+        const next = startNextRound(state);
+        if (next === state) break;
+        if (log) log = appendNextRound(log);
+        setState(next);
+        break;
+      }
+      case 'RESET_GAME':
+        if (!isOwner) break;
+        log = null;
+        members.forEach(m => { m.ready = false; });
+        setState(createLobbyState());
+        broadcastLobby();
+        break;
+      case 'ERROR':
+      case 'VERSION_MISMATCH':
+        console.warn(`[${code}] ${member.name} reported:`, packet.payload);
+        break;
+    }
+  };
+
+  return {
+    join: (socket) => {
+      let member: Member | null = null;
+
+      socket.on('message', (data) => {
+        let raw: unknown = data.toString();
+        try {
+          raw = JSON.parse(raw as string);
+        } catch {
+          // Left as text; validation rejects it
+        }
+        const packet = receivePacket(raw, 'client', member?.id ?? `[${code}] new connection`, reply => send(socket, reply));
+        if (!packet) return;
+        if (!member) {
+          if (packet.type === 'JOIN_REQUEST') member = handleJoin(socket, packet.payload);
+          else send(socket, protocolError('UNEXPECTED_PACKET', 'Entre na sala primeiro'));
+          return;
+        }
+        if (!members.includes(member) || member.socket !== socket) return; // Kicked or taken over, the socket is on its way out
+        try {
+          handlePacket(member, packet);
+        } catch (error) {
+          console.error(`[${code}] Error handling packet:`, error, packet);
+        }
+      });
+
+      socket.on('close', () => {
+        if (member && member.socket === socket) handleClose(member);
+        else if (!member && members.length === 0) onEmpty();
+      });
+    },
+  };
+};
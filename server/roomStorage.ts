@@ -0,0 +1,62 @@
+import { mkdir, readFile, readdir, rename, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { PollingRoom } from "../types";
+
+// Where /api/game keeps its rooms. Memory is enough for a single long-lived process
+// (vite dev, one server); the file adapter survives restarts. Serverless deployments
+// with several instances need a shared store behind the same interface.
+export interface RoomStorage {
+  get: (roomCode: string) => Promise<PollingRoom | null>;
+  set: (roomCode: string, room: PollingRoom) => Promise<void>;
+  delete: (roomCode: string) => Promise<void>;
+  list: () => Promise<string[]>; // Every stored room code
+}
+
+export const createMemoryStorage = (): RoomStorage => {
+  const rooms = new Map<string, PollingRoom>();
+  return {
+    get: async (roomCode) => rooms.get(roomCode) ?? null,
+    set: async (roomCode, room) => { rooms.set(roomCode, room); },
+    delete: async (roomCode) => { rooms.delete(roomCode); },
+    list: async () => [...rooms.keys()],
+  };
+};
+
+// One JSON file per room. Room codes are validated by the API before they reach here.
+export const createFileStorage = (dir: string): RoomStorage => {
+  const fileFor = (roomCode: string) => path.join(dir, `${roomCode}.json`);
+  return {
+    get: async (roomCode) => {
+      try {
+        return JSON.parse(await readFile(fileFor(roomCode), 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    set: async (roomCode, room) => {
+      await mkdir(dir, { recursive: true });
+      // Write then rename, so a crash never leaves half a room behind
+      const temp = `${fileFor(roomCode)}.tmp`;
+      await writeFile(temp, JSON.stringify(room));
+      await rename(temp, fileFor(roomCode));
+    },
+    delete: async (roomCode) => {
+      await rm(fileFor(roomCode), { force: true });
+    },
+    list: async () => {
+      try {
+        return (await readdir(dir)).filter(name => name.endsWith('.json')).map(name => name.slice(0, -'.json'.length));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+        throw error;
+      }
+    },
+  };
+};
+
+// GAME_STORAGE=file (optionally GAME_STORAGE_DIR) selects the file adapter
+export const createStorageFromEnv = (env: Record<string, string | undefined> = process.env): RoomStorage =>
+  env.GAME_STORAGE === 'file'
+    ? createFileStorage(env.GAME_STORAGE_DIR || '.game-rooms')
+    : createMemoryStorage();
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { PlayerAction } from "../types";
+import { ACTION_RATE_LIMIT, CHEAT_FLAG_THRESHOLD } from "../constants";
+import { createActionGuard, createRateLimiter, isSuspicious } from "./antiCheat";
+
+describe('rate limiter', () => {
+  it('allows a burst, then refills at the configured rate', () => {
+    const limiter = createRateLimiter({ burst: 3, perSecond: 2 });
+    expect([0, 0, 0, 0].map(() => limiter.allow('p1', 1000))).toEqual([true, true, true, false]);
+    // Half a second buys one more
+    expect(limiter.allow('p1', 1500)).toBe(true);
+    expect(limiter.allow('p1', 1500)).toBe(false);
+  });
+
+  it('keeps a bucket per key, and forgets one on request', () => {
+    const limiter = createRateLimiter({ burst: 1, perSecond: 1 });
+    expect(limiter.allow('p1', 0)).toBe(true);
+    expect(limiter.allow('p2', 0)).toBe(true);
+    expect(limiter.allow('p1', 0)).toBe(false);
+    limiter.forget('p1');
+    expect(limiter.allow('p1', 0)).toBe(true);
+  });
+});
+
+describe('action guard', () => {
+  const action = (playerId: string): PlayerAction => ({ actionType: 'DRAW_CARD', playerId });
+
+  it('refuses an action for another seat', () => {
+    const guard = createActionGuard();
+    expect(guard.screenAction('p1', action('p2'))).toBe('NOT_YOUR_SEAT');
+    expect(guard.screenAction('p1', action('p1'))).toBeNull();
+  });
+
+  it('drops a flood without counting it as a strike', () => {
+    const guard = createActionGuard();
+    const allowed = Array.from({ length: ACTION_RATE_LIMIT.burst + 5 }, () => guard.allowAction('p1'));
+    expect(allowed.filter(Boolean)).toHaveLength(ACTION_RATE_LIMIT.burst);
+    expect(guard.isFlagged('p1')).toBe(false);
+  });
+
+  it('flags a player exactly once, on reaching the threshold of suspicious rejections', () => {
+    const guard = createActionGuard();
+    const flags = Array.from({ length: CHEAT_FLAG_THRESHOLD + 2 }, () => guard.strike('p1', 'CARD_NOT_IN_HAND'));
+    expect(flags.filter(Boolean)).toHaveLength(1);
+    expect(flags[CHEAT_FLAG_THRESHOLD - 1]).toBe(true);
+    expect(guard.isFlagged('p1')).toBe(true);
+    expect(guard.isFlagged('p2')).toBe(false);
+  });
+
+  it('never strikes what an honest client can send late', () => {
+    const guard = createActionGuard();
+    (['NOT_YOUR_TURN', 'ALREADY_DREW', 'INVALID_CARD', 'NOTHING_TO_CATCH'] as const).forEach(reason => {
+      expect(isSuspicious(reason)).toBe(false);
+      for (let i = 0; i < CHEAT_FLAG_THRESHOLD; i++) guard.strike('p1', reason);
+    });
+    expect(guard.isFlagged('p1')).toBe(false);
+    (['NOT_YOUR_SEAT', 'CARD_NOT_IN_HAND', 'MISSING_COLOR', 'MISSING_TARGET'] as const).forEach(reason => expect(isSuspicious(reason)).toBe(true));
+  });
+});
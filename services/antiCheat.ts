@@ -0,0 +1,59 @@
+import { ActionRejection, PlayerAction } from "../types";
+import { ACTION_RATE_LIMIT, CHAT_RATE_LIMIT, CHEAT_FLAG_THRESHOLD } from "../constants";
+
+// Host-side guard for what connected players send. The engine already refuses illegal
+// moves; this binds each action to the seat of the connection it came on, throttles
+// floods, and counts the rejections an honest client could not have produced.
+
+// An honest client can be late (NOT_YOUR_TURN, ALREADY_DREW, a card that stopped matching...)
+// but never sends these
+const SUSPICIOUS: ActionRejection[] = ['NOT_YOUR_SEAT', 'CARD_NOT_IN_HAND', 'MISSING_COLOR', 'MISSING_TARGET'];
+
+export const isSuspicious = (reason: ActionRejection) => SUSPICIOUS.includes(reason);
+
+// Token bucket per key: `burst` at once, refilled at `perSecond`
+export const createRateLimiter = ({ burst, perSecond }: { burst: number; perSecond: number }) => {
+  const buckets = new Map<string, { tokens: number; at: number }>();
+  return {
+    allow: (key: string, now = Date.now()): boolean => {
+      const bucket = buckets.get(key) ?? { tokens: burst, at: now };
+      bucket.tokens = Math.min(burst, bucket.tokens + ((now - bucket.at) / 1000) * perSecond);
+      bucket.at = now;
+      buckets.set(key, bucket);
+      if (bucket.tokens < 1) return false;
+      bucket.tokens -= 1;
+      return true;
+    },
+    forget: (key: string) => { buckets.delete(key); },
+  };
+};
+
+export const createActionGuard = () => {
+  const actions = createRateLimiter(ACTION_RATE_LIMIT);
+  const chat = createRateLimiter(CHAT_RATE_LIMIT);
+  const strikes = new Map<string, number>();
+
+  return {
+    // Checks that come before the engine; null means hand it over
+    screenAction: (senderId: string, action: PlayerAction): ActionRejection | null =>
+      action.playerId !== senderId ? 'NOT_YOUR_SEAT' : null,
+    // Over the limit, a packet is dropped unanswered and without a strike: a laggy
+    // connection can deliver an honest burst too
+    allowAction: (senderId: string) => actions.allow(senderId),
+    allowChat: (senderId: string) => chat.allow(senderId),
+    // Records a rejection; true exactly once, when the player crosses the flag threshold
+    strike: (senderId: string, reason: ActionRejection): boolean => {
+      if (!isSuspicious(reason)) return false;
+      const count = (strikes.get(senderId) ?? 0) + 1;
+      strikes.set(senderId, count);
+      return count === CHEAT_FLAG_THRESHOLD;
+    },
+    isFlagged: (senderId: string) => (strikes.get(senderId) ?? 0) >= CHEAT_FLAG_THRESHOLD,
+    forget: (senderId: string) => {
+      actions.forget(senderId);
+      chat.forget(senderId);
+    },
+  };
+};
+
+export type ActionGuard = ReturnType<typeof createActionGuard>;
@@ -0,0 +1,136 @@
+import { BotDifficulty, BotMove, Card, CardColor, GameState } from "../types";
+import { BOT_EXPERT_FALLBACK_BUDGET_MS, BOT_THREAT_HAND_SIZE, BOT_WILD4_BLUFF_CHANCE, CARD_DEFINITIONS, DEFAULT_BOT_DIFFICULTY } from "../constants";
+import { canPlayCard, findBestMove, getDeckColors, isPartner, isWild4Bluff, isWildCard, pickBestColor, scoreHand } from "./gameLogic";
+import { getNextPlayerIndex, getPlayContext } from "./gameEngine";
+import { searchBestMove } from "./monteCarlo";
+import { RandomFn } from "./random";
+
+// Strategies read the authoritative state but only rely on what the seat could see:
+// its own hand, hand sizes, the discard pile and who drew on which color.
+// In team mode the partner is never a target.
+export interface BotStrategy {
+  chooseMove: (state: GameState, botIndex: number, random: RandomFn) => BotMove | null;
+}
+
+// Builds a strategy from separate card and color pickers
+const pickMove = (
+  chooseCard: (state: GameState, botIndex: number, random: RandomFn) => Card | null,
+  chooseColor: (state: GameState, botIndex: number, random: RandomFn) => CardColor
+): BotStrategy => ({
+  chooseMove: (state, botIndex, random) => {
+    const card = chooseCard(state, botIndex, random);
+    if (!card) return null;
+    return isWildCard(card) ? { card, wildColor: chooseColor(state, botIndex, random) } : { card };
+  },
+});
+
+export const legalCards = (state: GameState, botIndex: number): Card[] => {
+  const ctx = getPlayContext(state, botIndex);
+  return state.players[botIndex].hand.filter(c => canPlayCard(c, ctx));
+};
+
+// Easy: any legal card, any color
+const easy = pickMove(
+  (state, botIndex, random) => {
+    const valid = legalCards(state, botIndex);
+    return valid.length > 0 ? valid[Math.floor(random() * valid.length)] : null;
+  },
+  (state, _botIndex, random) => {
+    const colors = getDeckColors(state.deck);
+    return colors[Math.floor(random() * colors.length)];
+  }
+);
+
+// Normal: the classic heuristic, with the occasional +4 bluff against an opponent close to winning
+const normal = pickMove(
+  (state, botIndex, random) => {
+    const hand = state.players[botIndex].hand;
+    const ctx = getPlayContext(state, botIndex);
+    const bestMove = findBestMove(hand, ctx);
+
+    const wild4 = hand.find(c => c.type === 'wild4');
+    const nextPlayer = state.players[getNextPlayerIndex(botIndex, state.direction, state.players)];
+    if (wild4 && bestMove && !isWildCard(bestMove) && canPlayCard(wild4, ctx) && isWild4Bluff(hand, state.currentColor)
+        && !isPartner(nextPlayer, state.players[botIndex]) && nextPlayer.hand.length <= 2 && random() < BOT_WILD4_BLUFF_CHANCE) {
+      return wild4;
+    }
+    return bestMove;
+  },
+  (state, botIndex) => pickBestColor(state.players[botIndex].hand, getDeckColors(state.deck))
+);
+
+// How attractive it is to leave `color` active: cards we hold in it, how few are left
+// unseen (discarded cards are tracked), and which opponents recently had to draw on it
+// (a partner who lacks it counts against it).
+const colorScore = (state: GameState, botIndex: number, color: CardColor): number => {
+  const bot = state.players[botIndex];
+  const hand = bot.hand;
+  const own = hand.filter(c => c.color === color).length;
+
+  const inDeck = [...state.drawPile, ...state.discardPile, ...state.players.flatMap(p => p.hand)]
+    .filter(c => c.color === color).length;
+  const seen = state.discardPile.filter(c => c.color === color).length + own;
+  const scarcity = inDeck > 0 ? seen / inDeck : 0;
+
+  const nextIndex = getNextPlayerIndex(botIndex, state.direction, state.players);
+  const misses = state.players.reduce((sum, p, i) => {
+    if (i === botIndex || state.missedColors[p.id] !== color) return sum;
+    return sum + (i === nextIndex ? 3 : 1) * (isPartner(p, bot) ? -1 : 1);
+  }, 0);
+
+  return own * 2 + scarcity * 2 + misses;
+};
+
+// Hard: holds wilds back, attacks whoever is closest to winning and steers toward
+// colors the next players are known to lack.
+const hard = pickMove(
+  (state, botIndex) => {
+    const valid = legalCards(state, botIndex);
+    if (valid.length === 0) return null;
+
+    const count = state.players.filter(p => !p.eliminated).length;
+    const nextIndex = getNextPlayerIndex(botIndex, state.direction, state.players);
+    const prevIndex = getNextPlayerIndex(botIndex, (state.direction * -1) as 1 | -1, state.players);
+    const bot = state.players[botIndex];
+    const opponents = state.players.filter((p, i) => i !== botIndex && !isPartner(p, bot) && !p.eliminated);
+    const fewest = Math.min(...opponents.map(p => p.hand.length));
+    const isThreat = (i: number) => !isPartner(state.players[i], bot)
+      && state.players[i].hand.length <= BOT_THREAT_HAND_SIZE && state.players[i].hand.length === fewest;
+
+    const colored = valid.filter(c => !isWildCard(c));
+    const wilds = valid.filter(isWildCard);
+
+    if (isThreat(nextIndex)) {
+      // Hardest-hitting card first; a reverse only helps if it doesn't hand the turn to another threat
+      const attack = (card: Card) => CARD_DEFINITIONS[card.type].effect === 'reverse' && count > 2 && isThreat(prevIndex)
+        ? 0 : CARD_DEFINITIONS[card.type].attack;
+      const strongest = (cards: Card[]) => cards.filter(c => attack(c) > 0).sort((a, b) => attack(b) - attack(a))[0];
+      const hit = strongest(colored) || strongest(wilds);
+      if (hit) return hit;
+    }
+
+    if (colored.length > 0) {
+      // Leave the best color active; on ties shed the most points (a discard-all takes its whole color along)
+      const shed = (c: Card) => CARD_DEFINITIONS[c.type].effect === 'discardColor'
+        ? scoreHand(bot.hand.filter(o => o.color === c.color)) : c.points;
+      const value = (c: Card) => colorScore(state, botIndex, c.color) * 10 + shed(c);
+      return colored.reduce((best, c) => value(c) > value(best) ? c : best);
+    }
+
+    // Only wilds left: spend the plain one first and keep the draw wilds as the last resort
+    return wilds.find(c => CARD_DEFINITIONS[c.type].attack === 0) || wilds[0];
+  },
+  (state, botIndex) =>
+    getDeckColors(state.deck).reduce((best, color) => colorScore(state, botIndex, color) > colorScore(state, botIndex, best) ? color : best)
+);
+
+// Expert: Monte Carlo search. The host normally runs it in a worker (see expertBot.ts);
+// this synchronous version is the fallback where workers are unavailable.
+const expert: BotStrategy = {
+  chooseMove: (state, botIndex, random) => searchBestMove(state, botIndex, random, BOT_EXPERT_FALLBACK_BUDGET_MS),
+};
+
+export const BOT_STRATEGIES: Record<BotDifficulty, BotStrategy> = { easy, normal, hard, expert };
+
+export const getBotStrategy = (difficulty?: BotDifficulty): BotStrategy =>
+  BOT_STRATEGIES[difficulty ?? DEFAULT_BOT_DIFFICULTY];
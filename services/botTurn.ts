@@ -0,0 +1,92 @@
+import { BotMove, GameState, GameStatus, PlayerAction } from "../types";
+import { BOT_JUMP_IN_CHANCE, BOT_UNO_CALL_CHANCE, BOT_UNO_CATCH_CHANCE } from "../constants";
+import { isIdenticalCard, isPartner, pickSwapTarget, shouldChallengeWild4 } from "./gameLogic";
+import { createRng, deriveSeed, RandomFn } from "./random";
+import { applyAction, getTopCard } from "./gameEngine";
+import { getBotStrategy } from "./botStrategy";
+
+// Bot decisions are seeded from the match, so replaying a seed makes the same choices
+export const botRandom = (state: GameState, botId: string, purpose: string): RandomFn =>
+  createRng(deriveSeed(state.seed, state.turnCount, botId, purpose)).next;
+
+// Turns the move a strategy picked into the actions to dispatch, in order.
+// Shared by the browser host and the game server.
+export const planBotTurn = (state: GameState, botIndex: number, move: BotMove | null, random: RandomFn): PlayerAction[] => {
+  const bot = state.players[botIndex];
+  const card = move?.card;
+
+  const offender = state.pendingWild4?.victimId === bot.id ? state.players.find(p => p.id === state.pendingWild4!.playerId) : undefined;
+  if (!card && offender) {
+    const challenge = shouldChallengeWild4(offender.hand.length, random);
+    return [{ actionType: challenge ? 'CHALLENGE_WILD4' : 'ACCEPT_WILD4', playerId: bot.id }];
+  }
+  if (card) {
+    const swapsHands = state.rules.sevenZero && card.type === 'number' && card.value === 7;
+    const targetPlayerId = swapsHands ? pickSwapTarget(state.players, bot.id) : undefined;
+    const play: PlayerAction = { actionType: 'PLAY_CARD', cardId: card.id, wildColor: move?.wildColor, targetPlayerId, playerId: bot.id };
+    return bot.hand.length === 2 && random() < BOT_UNO_CALL_CHANCE ? [{ actionType: 'CALL_UNO', playerId: bot.id }, play] : [play];
+  }
+  return [{ actionType: state.drawnCardId ? 'PASS_TURN' : 'DRAW_CARD', playerId: bot.id }];
+};
+
+// What the host plays for a human whose turn clock ran out: the normal bot's pick
+// (findBestMove), or draw and pass. Follows up until the turn is over.
+export const planTimedOutTurn = (state: GameState, playerIndex: number): PlayerAction[] => {
+  const actions: PlayerAction[] = [];
+  const strategy = getBotStrategy('normal');
+  let current = state;
+  for (let step = 0; step < 4; step++) {
+    if (current.status !== GameStatus.PLAYING || current.currentPlayerIndex !== playerIndex || current.turnCount !== state.turnCount) break;
+    const player = current.players[playerIndex];
+    const random = botRandom(current, player.id, 'timeout');
+    for (const action of planBotTurn(current, playerIndex, strategy.chooseMove(current, playerIndex, random), random)) {
+      const { state: next } = applyAction(current, action);
+      if (next === current) return actions;
+      actions.push(action);
+      current = next;
+    }
+  }
+  return actions;
+};
+
+// Something a bot does out of turn: after `delay` ms the host dispatches `action`,
+// built from the state at that moment
+export interface BotReaction {
+  delay: number;
+  action: (state: GameState) => PlayerAction;
+}
+
+// Bots get a reaction window to catch whoever forgot to call UNO.
+// Planned when `unoWindow` opens; the engine refuses catches that come too late.
+export const planUnoCatches = (state: GameState): BotReaction[] => {
+  const target = state.unoWindow;
+  if (!target) return [];
+  const targetPlayer = state.players.find(p => p.id === target);
+  return state.players
+    .filter(p => p.isBot && !p.eliminated && p.id !== target && !(targetPlayer && isPartner(p, targetPlayer)))
+    .flatMap(bot => {
+      const random = botRandom(state, bot.id, 'catch');
+      if (random() >= BOT_UNO_CATCH_CHANCE) return [];
+      return [{ delay: 500 + random() * 800, action: () => ({ actionType: 'CATCH_UNO', targetPlayerId: target, playerId: bot.id }) }];
+    });
+};
+
+// Jump-in: bots holding an identical copy of the new top card may slap it down.
+// Planned whenever the top card changes.
+export const planJumpIns = (state: GameState): BotReaction[] => {
+  if (state.status !== GameStatus.PLAYING || !state.rules.jumpIn) return [];
+  const top = getTopCard(state);
+  return state.players.flatMap((bot, i) => {
+    if (!bot.isBot || i === state.currentPlayerIndex) return [];
+    const twin = bot.hand.find(c => isIdenticalCard(c, top));
+    const random = botRandom(state, bot.id, 'jump-in');
+    if (!twin || random() >= BOT_JUMP_IN_CHANCE) return [];
+    return [{
+      delay: 400 + random() * 800,
+      action: (current: GameState): PlayerAction => {
+        const targetPlayerId = twin.type === 'number' && twin.value === 7 ? pickSwapTarget(current.players, bot.id) : undefined;
+        return { actionType: 'PLAY_CARD', cardId: twin.id, targetPlayerId, playerId: bot.id };
+      },
+    }];
+  });
+};
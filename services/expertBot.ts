@@ -0,0 +1,13 @@
+import { ExpertResponse, createExpertMoveClient } from "./expertClient";
+
+// Browser host: expert searches run in expertBot.worker.ts so the table keeps animating
+export const requestExpertMove = createExpertMoveClient(({ onResponse, onCrash }) => {
+  if (typeof Worker === 'undefined') return null;
+  const worker = new Worker(new URL('./expertBot.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<ExpertResponse>) => onResponse(e.data);
+  worker.onerror = () => {
+    worker.terminate();
+    onCrash();
+  };
+  return { post: request => worker.postMessage(request) };
+});
@@ -0,0 +1,13 @@
+import { searchBestMove } from "./monteCarlo";
+import { createRng } from "./random";
+import { ExpertRequest, ExpertResponse } from "./expertClient";
+
+// Runs the Monte Carlo search off the main thread so the table keeps animating
+const scope = self as unknown as Worker;
+
+scope.onmessage = (e: MessageEvent<ExpertRequest>) => {
+  const { id, state, botIndex, seed, budgetMs } = e.data;
+  const move = searchBestMove(state, botIndex, createRng(seed).next, budgetMs);
+  const response: ExpertResponse = { id, cardId: move ? move.card.id : null, wildColor: move?.wildColor };
+  scope.postMessage(response);
+};
@@ -0,0 +1,81 @@
+import { BotMove, CardColor, GameState } from "../types";
+import { BOT_EXPERT_TIME_BUDGET_MS } from "../constants";
+import { BOT_STRATEGIES } from "./botStrategy";
+import { createRng } from "./random";
+
+// Messages exchanged with the expert search workers (services/expertBot.worker.ts in the
+// browser, server/expertWorker.ts on the game server). Cards travel as ids and are looked
+// up again in the caller's state, since the worker only ever sees a structured clone.
+export interface ExpertRequest {
+  id: number;
+  state: GameState;
+  botIndex: number;
+  seed: number;
+  budgetMs: number;
+}
+
+export interface ExpertResponse {
+  id: number;
+  cardId: string | null;
+  wildColor?: CardColor;
+}
+
+// What `start` wires up: replies go to onResponse; a crashed worker calls onCrash once it
+// has been terminated
+export interface ExpertWorkerEvents {
+  onResponse: (response: ExpertResponse) => void;
+  onCrash: () => void;
+}
+
+export interface ExpertWorkerHandle {
+  post: (request: ExpertRequest) => void;
+}
+
+// Request bookkeeping shared by both hosts. The worker is started on first use; without
+// one (unsupported, failed to start, crashed) moves come from the short in-process search,
+// and the next request after a crash starts a new worker.
+export const createExpertMoveClient = (start: (events: ExpertWorkerEvents) => ExpertWorkerHandle | null) => {
+  let worker: ExpertWorkerHandle | null = null;
+  let nextRequestId = 0;
+  const pending = new Map<number, (response: ExpertResponse | null) => void>();
+
+  const getWorker = (): ExpertWorkerHandle | null => {
+    if (worker) return worker;
+    let started: ExpertWorkerHandle | null = null;
+    try {
+      started = start({
+        onResponse: response => {
+          pending.get(response.id)?.(response);
+          pending.delete(response.id);
+        },
+        onCrash: () => {
+          pending.forEach(resolve => resolve(null));
+          pending.clear();
+          if (worker === started) worker = null;
+        },
+      });
+    } catch (error) {
+      console.error('Expert bot worker failed to start:', error);
+    }
+    worker = started;
+    return worker;
+  };
+
+  // Asks the worker for the expert bot's move within the per-move time budget
+  return (state: GameState, botIndex: number, seed: number): Promise<BotMove | null> => {
+    const fallback = () => BOT_STRATEGIES.expert.chooseMove(state, botIndex, createRng(seed).next);
+    const target = getWorker();
+    if (!target) return Promise.resolve(fallback());
+
+    const id = nextRequestId++;
+    return new Promise(resolve => {
+      pending.set(id, response => {
+        if (!response) return resolve(fallback());
+        const card = state.players[botIndex].hand.find(c => c.id === response.cardId);
+        resolve(card ? { card, wildColor: response.wildColor } : null);
+      });
+      const request: ExpertRequest = { id, state, botIndex, seed, budgetMs: BOT_EXPERT_TIME_BUDGET_MS };
+      target.post(request);
+    });
+  };
+};
@@ -0,0 +1,373 @@
+import { describe, expect, it } from "vitest";
+import { Card, CardColor, CardType, GameState, GameStatus, MatchSettings, PlayerAction } from "../types";
+import { CARD_DEFINITIONS, INITIAL_HAND_SIZE, MERCY_HAND_LIMIT, UNO_PENALTY, WILD4_CHALLENGE_PENALTY } from "../constants";
+import { applyAction, createSeats, dealGame, startNextRound } from "./gameEngine";
+
+// Tables are dealt normally, then hands, piles and turn are set by hand so every
+// transition starts from a position we know.
+
+const card = (id: string, color: CardColor, type: CardType = 'number', value?: number): Card =>
+  ({ id, color, type, value, points: type === 'number' ? value ?? 0 : CARD_DEFINITIONS[type].points });
+
+// Enough plain green cards to draw from without ever reshuffling
+const drawPile = () => Array.from({ length: 40 }, (_, i) => card(`draw-${i}`, 'green', 'number', i % 10));
+
+const setup = (hands: Card[][], top: Card, settings: Partial<MatchSettings> = {}, overrides: Partial<GameState> = {}): GameState => {
+  const seats = createSeats(hands.map((_, i) => ({ id: `p${i}`, name: `P${i}` })), hands.length, []);
+  const dealt = dealGame(seats, { seed: 1, ...settings });
+  return {
+    ...dealt,
+    players: dealt.players.map((p, i) => ({ ...p, hand: hands[i] })),
+    drawPile: drawPile(),
+    discardPile: [top],
+    currentColor: top.color === 'black' ? 'red' : top.color,
+    currentPlayerIndex: 0,
+    ...overrides,
+  };
+};
+
+const play = (state: GameState, playerId: string, cardId: string, extra: Partial<PlayerAction> = {}) =>
+  applyAction(state, { actionType: 'PLAY_CARD', cardId, playerId, ...extra });
+const act = (state: GameState, playerId: string, actionType: PlayerAction['actionType'], extra: Partial<PlayerAction> = {}) =>
+  applyAction(state, { actionType, playerId, ...extra });
+
+const handOf = (state: GameState, playerId: string) => state.players.find(p => p.id === playerId)!.hand;
+const rejection = (result: ReturnType<typeof applyAction>) => {
+  const event = result.events.find(e => e.type === 'ACTION_REJECTED');
+  return event?.type === 'ACTION_REJECTED' ? event.reason : null;
+};
+
+describe('dealing', () => {
+  const seats = createSeats([0, 1, 2].map(i => ({ id: `p${i}`, name: `P${i}` })), 3, []);
+
+  it('deals the same table from the same seed', () => {
+    expect(dealGame(seats, { seed: 42 })).toEqual(dealGame(seats, { seed: 42 }));
+  });
+
+  it('deals a different table from another seed', () => {
+    expect(dealGame(seats, { seed: 42 }).drawPile).not.toEqual(dealGame(seats, { seed: 43 }).drawPile);
+  });
+});
+
+describe('playing a card', () => {
+  const filler = [card('f1', 'yellow', 'number', 1), card('f2', 'yellow', 'number', 2)];
+
+  it('moves a matching card to the discard pile and passes the turn', () => {
+    const state = setup([[card('r5', 'red', 'number', 5), ...filler], filler, filler], card('top', 'red', 'number', 3));
+    const { state: next, events } = play(state, 'p0', 'r5');
+    expect(next.discardPile.at(-1)?.id).toBe('r5');
+    expect(handOf(next, 'p0')).toHaveLength(2);
+    expect(next.currentPlayerIndex).toBe(1);
+    expect(next.turnCount).toBe(state.turnCount + 1);
+    expect(events.some(e => e.type === 'CARD_PLAYED')).toBe(true);
+  });
+
+  it('rejects a card that does not match and leaves the state untouched', () => {
+    const state = setup([[card('b5', 'blue', 'number', 5), ...filler], filler], card('top', 'red', 'number', 3));
+    const result = play(state, 'p0', 'b5');
+    expect(result.state).toBe(state);
+    expect(rejection(result)).toBe('INVALID_CARD');
+  });
+
+  it('rejects playing out of turn', () => {
+    const state = setup([filler, [card('r5', 'red', 'number', 5), ...filler]], card('top', 'red', 'number', 3));
+    expect(rejection(play(state, 'p1', 'r5'))).toBe('NOT_YOUR_TURN');
+  });
+
+  it('needs a color for a wild and then makes it the active one', () => {
+    const state = setup([[card('w', 'black', 'wild'), ...filler], filler], card('top', 'red', 'number', 3));
+    expect(rejection(play(state, 'p0', 'w'))).toBe('MISSING_COLOR');
+    const { state: next } = play(state, 'p0', 'w', { wildColor: 'blue' });
+    expect(next.currentColor).toBe('blue');
+  });
+
+  it('skips the next player with a skip card', () => {
+    const state = setup([[card('s', 'red', 'skip'), ...filler], filler, filler], card('top', 'red', 'number', 3));
+    expect(play(state, 'p0', 's').state.currentPlayerIndex).toBe(2);
+  });
+});
+
+describe('drawing', () => {
+  it('draws one card and ends the turn', () => {
+    const state = setup([[card('b1', 'blue', 'number', 1)], [card('b2', 'blue', 'number', 2)]], card('top', 'red', 'number', 3));
+    const { state: next } = act(state, 'p0', 'DRAW_CARD');
+    expect(handOf(next, 'p0')).toHaveLength(2);
+    expect(next.drawPile).toHaveLength(state.drawPile.length - 1);
+    expect(next.currentPlayerIndex).toBe(1);
+    expect(next.missedColors.p0).toBe('red');
+  });
+
+  it('keeps drawing until a playable card shows up when the house rule is on', () => {
+    const pile = [card('d1', 'blue', 'number', 1), card('d2', 'blue', 'number', 2), card('d3', 'red', 'number', 7), ...drawPile()];
+    const state = setup([[card('b1', 'blue', 'number', 1)], [card('b2', 'blue', 'number', 2)]], card('top', 'red', 'number', 3),
+      { rules: { drawUntilPlayable: true } as MatchSettings['rules'] }, { drawPile: pile });
+    const { state: next } = act(state, 'p0', 'DRAW_CARD');
+    expect(handOf(next, 'p0').map(c => c.id)).toEqual(['b1', 'd1', 'd2', 'd3']);
+    expect(next.drawnCardId).toBe('d3');
+    expect(next.currentPlayerIndex).toBe(0);
+    expect(rejection(act(next, 'p0', 'DRAW_CARD'))).toBe('ALREADY_DREW');
+    expect(play(next, 'p0', 'd3').state.currentPlayerIndex).toBe(1);
+  });
+});
+
+describe('draw penalties and stacking', () => {
+  const filler = [card('f1', 'yellow', 'number', 1), card('f2', 'yellow', 'number', 2)];
+
+  it('makes the next player draw two and lose the turn without stacking', () => {
+    const state = setup([[card('d2', 'red', 'draw2'), ...filler], filler, filler], card('top', 'red', 'number', 3));
+    const { state: next } = play(state, 'p0', 'd2');
+    expect(handOf(next, 'p1')).toHaveLength(4);
+    expect(next.currentPlayerIndex).toBe(2);
+  });
+
+  it('accumulates stacked +2s until someone gives up and draws the total', () => {
+    const state = setup(
+      [[card('a', 'red', 'draw2'), ...filler], [card('b', 'blue', 'draw2'), ...filler], filler],
+      card('top', 'red', 'number', 3),
+      { rules: { stackDrawCards: true } as MatchSettings['rules'] },
+    );
+    const first = play(state, 'p0', 'a').state;
+    expect(first.pendingDraw).toBe(2);
+    expect(first.currentPlayerIndex).toBe(1);
+    // Only another draw card may be played on a pending stack
+    expect(rejection(play(first, 'p1', 'f1'))).toBe('INVALID_CARD');
+
+    const second = play(first, 'p1', 'b');
+    expect(second.state.pendingDraw).toBe(4);
+    expect(second.events).toContainEqual({ type: 'DRAW_STACKED', playerId: 'p1', total: 4 });
+
+    const { state: last } = act(second.state, 'p2', 'DRAW_CARD');
+    expect(handOf(last, 'p2')).toHaveLength(filler.length + 4);
+    expect(last.pendingDraw).toBe(0);
+    expect(last.currentPlayerIndex).toBe(0);
+  });
+});
+
+describe('scoring', () => {
+  const last = [card('r5', 'red', 'number', 5)];
+  const leftovers = [[card('b7', 'blue', 'number', 7), card('s', 'blue', 'skip'), card('w4', 'black', 'wild4')], [card('y2', 'yellow', 'number', 2)]];
+
+  it('gives the player who goes out the value of every card left in the other hands', () => {
+    const state = setup([last, ...leftovers], card('top', 'red', 'number', 3), { targetScore: 500 });
+    const { state: next, events } = play(state, 'p0', 'r5');
+    expect(next.status).toBe(GameStatus.ROUND_OVER);
+    // 7 + 20 (action) + 50 (wild) + 2
+    expect(events).toContainEqual({ type: 'ROUND_WON', playerId: 'p0', points: 79 });
+    expect(next.scores.p0).toBe(79);
+    expect(next.roundHistory).toEqual([{ round: 1, winnerId: 'p0', points: 79 }]);
+  });
+
+  it('ends the match once the winner reaches the target score', () => {
+    const state = setup([last, ...leftovers], card('top', 'red', 'number', 3), { targetScore: 50 });
+    const { state: next, events } = play(state, 'p0', 'r5');
+    expect(next.status).toBe(GameStatus.GAME_OVER);
+    expect(events).toContainEqual({ type: 'GAME_WON', playerId: 'p0' });
+  });
+
+  it('deals a fresh round that keeps the scores', () => {
+    const state = setup([last, ...leftovers], card('top', 'red', 'number', 3), { targetScore: 500 });
+    const over = play(state, 'p0', 'r5').state;
+    const next = startNextRound(over);
+    expect(next.status).toBe(GameStatus.PLAYING);
+    expect(next.roundNumber).toBe(over.roundNumber + 1);
+    expect(next.scores).toEqual(over.scores);
+    next.players.forEach(p => expect(p.hand).toHaveLength(INITIAL_HAND_SIZE));
+  });
+});
+
+describe('UNO', () => {
+  const two = [card('r5', 'red', 'number', 5), card('y1', 'yellow', 'number', 1)];
+  const others = [card('b1', 'blue', 'number', 1), card('b2', 'blue', 'number', 2), card('r3', 'red', 'number', 3)];
+
+  it('opens a catch window when a player goes down to one card without calling it', () => {
+    const state = setup([two, others, others], card('top', 'red', 'number', 3));
+    const { state: next } = play(state, 'p0', 'r5');
+    expect(next.unoWindow).toBe('p0');
+
+    const caught = act(next, 'p2', 'CATCH_UNO', { targetPlayerId: 'p0' });
+    expect(caught.events[0]).toEqual({ type: 'UNO_CAUGHT', playerId: 'p0', catcherId: 'p2' });
+    expect(handOf(caught.state, 'p0')).toHaveLength(1 + UNO_PENALTY);
+    expect(caught.state.unoWindow).toBeNull();
+  });
+
+  it('closes the window once the player calls it', () => {
+    const state = setup([two, others], card('top', 'red', 'number', 3));
+    const { state: next } = act(play(state, 'p0', 'r5').state, 'p0', 'CALL_UNO');
+    expect(next.unoWindow).toBeNull();
+    expect(rejection(act(next, 'p1', 'CATCH_UNO', { targetPlayerId: 'p0' }))).toBe('NOTHING_TO_CATCH');
+  });
+
+  it('lets the chance pass once the next player moves', () => {
+    const state = setup([two, others, others], card('top', 'red', 'number', 3));
+    const { state: next } = act(play(state, 'p0', 'r5').state, 'p1', 'DRAW_CARD');
+    expect(next.unoWindow).toBeNull();
+    expect(rejection(act(next, 'p2', 'CATCH_UNO', { targetPlayerId: 'p0' }))).toBe('NOTHING_TO_CATCH');
+  });
+
+  it('keeps the window open when someone else jumps in', () => {
+    const jumper = [card('r5b', 'red', 'number', 5), ...others];
+    const state = setup([two, others, jumper], card('top', 'red', 'number', 3), { rules: { jumpIn: true } as MatchSettings['rules'] });
+    const { state: next } = play(state, 'p0', 'r5');
+    const jumped = play(next, 'p2', 'r5b');
+    expect(jumped.events.some(e => e.type === 'JUMPED_IN')).toBe(true);
+    expect(jumped.state.unoWindow).toBe('p0');
+    expect(rejection(act(jumped.state, 'p1', 'CATCH_UNO', { targetPlayerId: 'p0' }))).toBeNull();
+  });
+});
+
+describe('seven-zero', () => {
+  const rules = { sevenZero: true } as MatchSettings['rules'];
+  const mine = [card('r7', 'red', 'number', 7), card('r0', 'red', 'number', 0), card('y1', 'yellow', 'number', 1)];
+  const theirs = (prefix: string) => [card(`${prefix}1`, 'blue', 'number', 1), card(`${prefix}2`, 'blue', 'number', 2)];
+
+  it('swaps hands with the chosen player on a 7', () => {
+    const state = setup([mine, theirs('a'), theirs('b')], card('top', 'red', 'number', 3), { rules });
+    expect(rejection(play(state, 'p0', 'r7'))).toBe('MISSING_TARGET');
+    const { state: next, events } = play(state, 'p0', 'r7', { targetPlayerId: 'p2' });
+    expect(events).toContainEqual({ type: 'HANDS_SWAPPED', playerId: 'p0', targetPlayerId: 'p2' });
+    expect(handOf(next, 'p0').map(c => c.id)).toEqual(['b1', 'b2']);
+    expect(handOf(next, 'p2').map(c => c.id)).toEqual(['r0', 'y1']);
+  });
+
+  it('passes every hand along the direction of play on a 0', () => {
+    const state = setup([mine, theirs('a'), theirs('b')], card('top', 'red', 'number', 3), { rules });
+    const { state: next } = play(state, 'p0', 'r0');
+    expect(handOf(next, 'p1').map(c => c.id)).toEqual(['r7', 'y1']);
+    expect(handOf(next, 'p2').map(c => c.id)).toEqual(['a1', 'a2']);
+    expect(handOf(next, 'p0').map(c => c.id)).toEqual(['b1', 'b2']);
+  });
+});
+
+describe('wild draw four challenges', () => {
+  const wild4 = card('w4', 'black', 'wild4');
+  const filler = [card('f1', 'yellow', 'number', 1), card('f2', 'yellow', 'number', 2), card('f3', 'yellow', 'number', 3)];
+
+  const afterWild4 = (offenderHand: Card[], settings: Partial<MatchSettings> = {}, overrides: Partial<GameState> = {}) => {
+    const state = setup([[wild4, ...offenderHand], filler, filler], card('top', 'red', 'number', 3), settings, overrides);
+    return play(state, 'p0', 'w4', { wildColor: 'blue' }).state;
+  };
+
+  it('leaves the victim to decide before anything is drawn', () => {
+    const next = afterWild4(filler);
+    expect(next.pendingWild4).toMatchObject({ playerId: 'p0', victimId: 'p1' });
+    expect(next.pendingDraw).toBe(CARD_DEFINITIONS.wild4.drawAmount);
+    expect(next.currentPlayerIndex).toBe(1);
+  });
+
+  it('punishes a bluff: the offender draws four and the challenger plays on', () => {
+    const next = afterWild4([card('r9', 'red', 'number', 9), ...filler]);
+    const { state: result, events } = act(next, 'p1', 'CHALLENGE_WILD4');
+    expect(events[0]).toMatchObject({ type: 'WILD4_CHALLENGED', success: true, penalty: 4 });
+    expect(handOf(result, 'p0')).toHaveLength(4 + 4);
+    expect(result.pendingDraw).toBe(0);
+    expect(result.currentPlayerIndex).toBe(1);
+  });
+
+  it('costs a wrong challenger the penalty plus two and the turn', () => {
+    const next = afterWild4(filler);
+    const { state: result, events } = act(next, 'p1', 'CHALLENGE_WILD4');
+    const penalty = CARD_DEFINITIONS.wild4.drawAmount! + WILD4_CHALLENGE_PENALTY;
+    expect(events[0]).toMatchObject({ type: 'WILD4_CHALLENGED', success: false, penalty });
+    expect(handOf(result, 'p1')).toHaveLength(filler.length + penalty);
+    expect(result.currentPlayerIndex).toBe(2);
+  });
+
+  it('adds a stack already waiting to the failed challenge penalty', () => {
+    const next = afterWild4(filler, { rules: { stackDrawCards: true } as MatchSettings['rules'] }, { pendingDraw: 2, discardPile: [card('top', 'red', 'draw2')] });
+    const { events } = act(next, 'p1', 'CHALLENGE_WILD4');
+    expect(events[0]).toMatchObject({ success: false, penalty: 2 + 4 + WILD4_CHALLENGE_PENALTY });
+  });
+
+  it('draws the four and passes the turn on accept', () => {
+    const next = afterWild4(filler);
+    const { state: result } = act(next, 'p1', 'ACCEPT_WILD4');
+    expect(handOf(result, 'p1')).toHaveLength(filler.length + 4);
+    expect(result.pendingWild4).toBeNull();
+    expect(result.currentPlayerIndex).toBe(2);
+  });
+
+  it('rejects a challenge from anyone but the victim', () => {
+    expect(rejection(act(afterWild4(filler), 'p2', 'CHALLENGE_WILD4'))).toBe('NOT_YOUR_TURN');
+    const noneWaiting = setup([filler, filler], card('top', 'red', 'number', 3));
+    expect(rejection(act(noneWaiting, 'p0', 'CHALLENGE_WILD4'))).toBe('NO_WILD4_PENDING');
+  });
+});
+
+describe('mercy rule', () => {
+  const many = (prefix: string, count: number) => Array.from({ length: count }, (_, i) => card(`${prefix}${i}`, 'yellow', 'number', i % 10));
+
+  it('eliminates a player who reaches the hand limit and skips their seat', () => {
+    const state = setup(
+      [[card('d2', 'red', 'draw2'), card('f', 'blue', 'number', 1)], many('b', MERCY_HAND_LIMIT - 2), many('c', 3)],
+      card('top', 'red', 'number', 3),
+      { rules: { mercyRule: true } as MatchSettings['rules'] },
+    );
+    const { state: next, events } = play(state, 'p0', 'd2');
+    expect(events).toContainEqual({ type: 'PLAYER_ELIMINATED', playerId: 'p1', handCount: MERCY_HAND_LIMIT });
+    const out = next.players[1];
+    expect(out.eliminated).toBe(true);
+    expect(out.hand).toHaveLength(0);
+    // The eliminated player's cards go back under the draw pile
+    expect(next.drawPile.slice(-MERCY_HAND_LIMIT).map(c => c.id)).toEqual(expect.arrayContaining(['b0', 'draw-0', 'draw-1']));
+    expect(next.currentPlayerIndex).toBe(2);
+
+    expect(act(next, 'p2', 'DRAW_CARD').state.currentPlayerIndex).toBe(0);
+    expect(rejection(act(next, 'p1', 'DRAW_CARD'))).toBe('NOT_YOUR_TURN');
+  });
+
+  it('ends the round when only one player is left standing', () => {
+    const state = setup(
+      [[card('d2', 'red', 'draw2'), card('f', 'blue', 'number', 1)], many('b', MERCY_HAND_LIMIT - 2)],
+      card('top', 'red', 'number', 3),
+      { rules: { mercyRule: true } as MatchSettings['rules'] },
+    );
+    const { state: next } = play(state, 'p0', 'd2');
+    expect(next.status).toBe(GameStatus.ROUND_OVER);
+    expect(next.winner?.id).toBe('p0');
+  });
+
+  it('keeps the smallest hand in, and gives it the round, when everyone goes over at once', () => {
+    const state = setup(
+      [many('a', MERCY_HAND_LIMIT - 1), many('b', MERCY_HAND_LIMIT + 2)],
+      card('top', 'red', 'number', 3),
+      { rules: { mercyRule: true } as MatchSettings['rules'] },
+    );
+    const { state: next, events } = act(state, 'p0', 'DRAW_CARD');
+    expect(events).toContainEqual({ type: 'PLAYER_ELIMINATED', playerId: 'p1', handCount: MERCY_HAND_LIMIT + 2 });
+    expect(events.some(e => e.type === 'PLAYER_ELIMINATED' && e.playerId === 'p0')).toBe(false);
+    expect(next.status).toBe(GameStatus.ROUND_OVER);
+    expect(next.winner?.id).toBe('p0');
+  });
+});
+
+describe('team mode: giving a card', () => {
+  const hand = (prefix: string) => [1, 2, 3, 4].map(v => card(`${prefix}${v}`, 'yellow', 'number', v));
+  const teams = { showPartnerHand: false, passCard: true };
+
+  it('hands one card to the partner once per round, keeping the turn', () => {
+    const state = setup([hand('a'), hand('b'), hand('c'), hand('d')], card('top', 'red', 'number', 3), { teams });
+    const { state: next, events } = act(state, 'p0', 'GIVE_CARD', { cardId: 'a1' });
+    expect(events).toEqual([{ type: 'CARD_GIVEN', playerId: 'p0', targetPlayerId: 'p2' }]);
+    expect(handOf(next, 'p0').map(c => c.id)).not.toContain('a1');
+    expect(handOf(next, 'p2').map(c => c.id)).toContain('a1');
+    expect(next.currentPlayerIndex).toBe(0);
+    expect(rejection(act(next, 'p0', 'GIVE_CARD', { cardId: 'a2' }))).toBe('CANNOT_GIVE_CARD');
+  });
+
+  it('is refused when the teams do not pass cards, or outside team mode', () => {
+    const noPassing = setup([hand('a'), hand('b'), hand('c'), hand('d')], card('top', 'red', 'number', 3), { teams: { ...teams, passCard: false } });
+    expect(rejection(act(noPassing, 'p0', 'GIVE_CARD', { cardId: 'a1' }))).toBe('CANNOT_GIVE_CARD');
+    const solo = setup([hand('a'), hand('b'), hand('c')], card('top', 'red', 'number', 3));
+    expect(rejection(act(solo, 'p0', 'GIVE_CARD', { cardId: 'a1' }))).toBe('CANNOT_GIVE_CARD');
+  });
+
+  it('shares the round win with the partner', () => {
+    const state = setup([[card('r5', 'red', 'number', 5)], hand('b'), hand('c'), hand('d')], card('top', 'red', 'number', 3), { teams });
+    const { state: next } = play(state, 'p0', 'r5');
+    expect(next.status).toBe(GameStatus.ROUND_OVER);
+    // Only the opponents' cards count: 1+2+3+4 in each of two hands
+    expect(next.scores.p0).toBe(20);
+    expect(next.scores.p2).toBe(20);
+    expect(next.scores.p1).toBe(0);
+  });
+});
@@ -0,0 +1,637 @@
+import { BotDifficulty, Card, GameEvent, GameState, GameStatus, MatchSettings, Player, PlayerAction, RejectReason } from "../types";
+import { AVATARS, BOT_NAMES, CARD_DEFINITIONS, DECK_PRESETS, DEFAULT_DECK, DEFAULT_RULES, DEFAULT_TARGET_SCORE, DEFAULT_TURN_TIME_LIMIT, GIVE_CARD_MIN_HAND, INITIAL_HAND_SIZE, MERCY_HAND_LIMIT, MIN_SEATS, UNO_PENALTY, WILD4_CHALLENGE_PENALTY } from "../constants";
+import { PlayContext, canPlayCard, createDeck, getDeckColors, isCardValid, isPartner, isWild4Bluff, isWildCard, scoreHand, shuffleDeck } from "./gameLogic";
+import { createRng, randomSeed } from "./random";
+
+// Pure rules engine: every transition takes a state and returns a new one.
+// No React, no network, no timers — the host, bots and replays all go through here.
+
+export interface ActionResult {
+  state: GameState;
+  events: GameEvent[];
+}
+
+export const createLobbyState = (): GameState => ({
+  status: GameStatus.LOBBY,
+  players: [],
+  currentPlayerIndex: 0,
+  direction: 1,
+  drawPile: [],
+  discardPile: [],
+  currentColor: 'red',
+  winner: null,
+  turnCount: 0,
+  roundNumber: 0,
+  targetScore: DEFAULT_TARGET_SCORE,
+  scores: {},
+  roundHistory: [],
+  teams: null,
+  cardsGiven: [],
+  deck: DEFAULT_DECK,
+  seed: 0,
+  rngState: 0,
+  unoWindow: null,
+  rules: DEFAULT_RULES,
+  turnTimeLimit: DEFAULT_TURN_TIME_LIMIT,
+  pendingDraw: 0,
+  drawnCardId: null,
+  pendingWild4: null,
+  missedColors: {},
+});
+
+// Eliminated seats (mercy rule) are passed over
+export const getNextPlayerIndex = (current: number, direction: 1 | -1, players: { eliminated?: boolean }[]) => {
+  const count = players.length;
+  let next = (current + direction + count) % count;
+  while (players[next].eliminated && next !== current) next = (next + direction + count) % count;
+  return next;
+};
+
+// Checks a state that was handed over rather than built here (a host snapshot) before it
+// becomes the game: the cards in play are exactly the deck's, each once, seat ids are
+// unique and the turn points at a seat.
+export const isConsistentState = (state: GameState): boolean => {
+  if (state.status === GameStatus.LOBBY) return false;
+  const deck = new Map(createDeck(() => 0, DECK_PRESETS[state.deck]).map(card => [card.id, card]));
+  const inPlay = [...state.drawPile, ...state.discardPile, ...state.players.flatMap(p => p.hand)];
+  const seen = new Set<string>();
+  const cardsMatch = inPlay.length === deck.size && inPlay.every(card => {
+    const original = deck.get(card.id);
+    if (!original || seen.has(card.id)) return false;
+    seen.add(card.id);
+    return original.color === card.color && original.type === card.type && original.value === card.value && original.points === card.points;
+  });
+  const seatIds = new Set(state.players.map(p => p.id));
+  return cardsMatch
+    && state.discardPile.length > 0
+    && state.players.length >= MIN_SEATS
+    && seatIds.size === state.players.length
+    && Number.isInteger(state.currentPlayerIndex) && state.currentPlayerIndex >= 0 && state.currentPlayerIndex < state.players.length;
+};
+
+export const getTopCard = (state: GameState) => state.discardPile[state.discardPile.length - 1];
+
+export const getPlayContext = (state: GameState, playerIndex: number): PlayContext => ({
+  topCard: getTopCard(state),
+  currentColor: state.currentColor,
+  rules: state.rules,
+  pendingDraw: state.pendingDraw,
+  drawnCardId: state.drawnCardId,
+  isTurn: playerIndex === state.currentPlayerIndex,
+});
+
+// --- Setup ---
+// Humans sit first in the order given, with their own avatar or one by seat;
+// bots fill the remaining seats with avatars nobody took.
+export const createSeats = (
+  humans: { id: string; name: string; isHost?: boolean; avatar?: string }[],
+  totalSeats: number,
+  botDifficulties: BotDifficulty[]
+): Player[] => {
+  const unchosen = AVATARS.filter(a => !humans.some(h => h.avatar === a));
+  const seats: Player[] = humans.map((human, i) => ({
+    id: human.id,
+    name: human.name,
+    avatar: human.avatar ?? unchosen[i % unchosen.length],
+    isBot: false,
+    hand: [],
+    isUno: false,
+    ...(human.isHost ? { isHost: true } : {}),
+  }));
+
+  const neededBots = Math.max(0, totalSeats - seats.length);
+  const freeAvatars = AVATARS.filter(a => !seats.some(p => p.avatar === a));
+  for (let i = 0; i < neededBots; i++) {
+    seats.push({
+      id: `bot-${i}`,
+      name: BOT_NAMES[i % BOT_NAMES.length],
+      avatar: freeAvatars[i % freeAvatars.length],
+      isBot: true,
+      hand: [],
+      isUno: false,
+      difficulty: botDifficulties[i],
+    });
+  }
+  return seats;
+};
+
+// Deals a fresh round while keeping the match bookkeeping (scores, history) of `match`.
+// The opening seat rotates every round.
+const dealRound = (match: GameState, seats: Player[], roundNumber: number): GameState => {
+  const rng = createRng(match.rngState);
+  const deck = createDeck(rng.next, DECK_PRESETS[match.deck]);
+
+  const players = seats.map(seat => ({
+    ...seat,
+    hand: deck.splice(0, INITIAL_HAND_SIZE),
+    isUno: false,
+    eliminated: false,
+  }));
+
+  const firstCard = deck.shift()!;
+  const initialColor = isWildCard(firstCard) ? getDeckColors(match.deck)[0] : firstCard.color;
+
+  return {
+    ...match,
+    status: GameStatus.PLAYING,
+    players,
+    currentPlayerIndex: (roundNumber - 1) % players.length,
+    direction: 1,
+    drawPile: deck,
+    discardPile: [firstCard],
+    currentColor: initialColor,
+    winner: null,
+    turnCount: 1,
+    roundNumber,
+    rngState: rng.getState(),
+    unoWindow: null,
+    pendingDraw: 0,
+    drawnCardId: null,
+    pendingWild4: null,
+    missedColors: {},
+    cardsGiven: [],
+  };
+};
+
+export const dealGame = (seats: Player[], settings: Partial<MatchSettings> = {}): GameState => {
+  const seed = settings.seed ?? randomSeed();
+  const match: GameState = {
+    ...createLobbyState(),
+    targetScore: settings.targetScore ?? DEFAULT_TARGET_SCORE,
+    // A variant deck brings its own rules along
+    rules: { ...DEFAULT_RULES, ...settings.rules, ...DECK_PRESETS[settings.deck ?? DEFAULT_DECK].rules },
+    turnTimeLimit: settings.turnTimeLimit ?? DEFAULT_TURN_TIME_LIMIT,
+    teams: settings.teams ?? null,
+    deck: settings.deck ?? DEFAULT_DECK,
+    seed,
+    rngState: seed,
+    scores: Object.fromEntries(seats.map(p => [p.id, 0])),
+  };
+  // Teams alternate around the table, so partners never play back to back
+  return dealRound(match, match.teams ? seats.map((p, i) => ({ ...p, team: i % 2 })) : seats, 1);
+};
+
+export const startNextRound = (state: GameState): GameState => {
+  if (state.status !== GameStatus.ROUND_OVER) return state;
+  return dealRound(state, state.players, state.roundNumber + 1);
+};
+
+// --- Seat Management ---
+// A disconnected player's seat is played by a bot until they come back...
+export const setPlayerAway = (state: GameState, playerId: string, away: boolean): GameState => {
+  const index = state.players.findIndex(p => p.id === playerId);
+  if (index === -1) return state;
+  return updatePlayer(state, index, { isBot: away, isAway: away });
+};
+
+// ...or for good, once they have been gone too long
+export const abandonSeat = (state: GameState, playerId: string): GameState => {
+  const index = state.players.findIndex(p => p.id === playerId);
+  if (index === -1) return state;
+  return updatePlayer(state, index, { isBot: true, isAway: false });
+};
+
+// --- Internal Transitions ---
+const reject = (state: GameState, playerId: string, reason: RejectReason): ActionResult => ({
+  state,
+  events: [{ type: 'ACTION_REJECTED', playerId, reason }],
+});
+
+const updatePlayer = (state: GameState, playerIndex: number, update: Partial<Player>): GameState => {
+  const players = [...state.players];
+  players[playerIndex] = { ...players[playerIndex], ...update };
+  return { ...state, players };
+};
+
+const omitKey = <T>(record: Record<string, T>, key: string): Record<string, T> => {
+  const { [key]: _, ...rest } = record;
+  return rest;
+};
+
+// Draws from the pile, recycling the discard pile (minus its top card) when it runs short.
+const drawCards = (
+  state: GameState,
+  playerIndex: number,
+  count: number,
+  reason: 'DRAW' | 'PENALTY',
+  events: GameEvent[]
+): GameState => {
+  let drawPile = [...state.drawPile];
+  let discardPile = state.discardPile;
+  let rngState = state.rngState;
+
+  if (drawPile.length < count && discardPile.length > 1) {
+    const rng = createRng(rngState);
+    const recycled = shuffleDeck(discardPile.slice(0, -1), rng.next);
+    rngState = rng.getState();
+    drawPile = [...drawPile, ...recycled];
+    discardPile = [discardPile[discardPile.length - 1]];
+    events.push({ type: 'DECK_RESHUFFLED', count: recycled.length });
+  }
+
+  const drawn = drawPile.splice(0, count);
+  const player = state.players[playerIndex];
+  if (drawn.length > 0) {
+    events.push({ type: 'CARDS_DRAWN', playerId: player.id, count: drawn.length, reason });
+  }
+
+  return updatePlayer(
+    { ...state, drawPile, discardPile, rngState },
+    playerIndex,
+    { hand: [...player.hand, ...drawn], isUno: false }
+  );
+};
+
+const advanceTurn = (state: GameState, skipNext: boolean, events: GameEvent[]): GameState => {
+  let nextIndex = getNextPlayerIndex(state.currentPlayerIndex, state.direction, state.players);
+  if (skipNext) {
+    events.push({ type: 'PLAYER_SKIPPED', playerId: state.players[nextIndex].id });
+    nextIndex = getNextPlayerIndex(nextIndex, state.direction, state.players);
+  }
+  return { ...state, currentPlayerIndex: nextIndex, turnCount: state.turnCount + 1, drawnCardId: null };
+};
+
+// Draws one card at a time until `found` accepts one (or the piles run dry),
+// reporting the whole run as a single draw.
+const drawUntil = (
+  state: GameState,
+  playerIndex: number,
+  reason: 'DRAW' | 'PENALTY',
+  found: (card: Card, state: GameState) => boolean,
+  events: GameEvent[]
+): GameState => {
+  let next = state;
+  let drawn = 0;
+  while (true) {
+    const before = next.players[playerIndex].hand.length;
+    const stepEvents: GameEvent[] = [];
+    next = drawCards(next, playerIndex, 1, reason, stepEvents);
+    events.push(...stepEvents.filter(e => e.type === 'DECK_RESHUFFLED'));
+
+    const hand = next.players[playerIndex].hand;
+    if (hand.length === before) break;
+    drawn++;
+    if (found(hand[hand.length - 1], next)) break;
+  }
+  if (drawn > 0) events.push({ type: 'CARDS_DRAWN', playerId: next.players[playerIndex].id, count: drawn, reason });
+  return next;
+};
+
+const drawUntilPlayable = (state: GameState, playerIndex: number, events: GameEvent[]): GameState =>
+  drawUntil(state, playerIndex, 'DRAW', (card, next) => isCardValid(card, getTopCard(next), next.currentColor), events);
+
+// 7-0: hands change owners, so nobody keeps a pending UNO call or window
+const resetUnoFlags = (state: GameState): GameState => ({
+  ...state,
+  unoWindow: null,
+  players: state.players.map(p => ({ ...p, isUno: p.hand.length === 1 })),
+});
+
+const swapHands = (state: GameState, playerIndex: number, targetIndex: number): GameState => {
+  const players = [...state.players];
+  const mine = players[playerIndex].hand;
+  players[playerIndex] = { ...players[playerIndex], hand: players[targetIndex].hand };
+  players[targetIndex] = { ...players[targetIndex], hand: mine };
+  return resetUnoFlags({ ...state, players, missedColors: {} });
+};
+
+// Every hand moves to the next seat in the direction of play (eliminated seats stay empty)
+const rotateHands = (state: GameState): GameState => {
+  const players = state.players.map((p, i) => {
+    if (p.eliminated) return p;
+    const giver = getNextPlayerIndex(i, (state.direction * -1) as 1 | -1, state.players);
+    return { ...p, hand: state.players[giver].hand };
+  });
+  return resetUnoFlags({ ...state, players, missedColors: {} });
+};
+
+// The round winner scores every card still held by the opponents.
+// In team mode the partner's cards don't count, and both partners score.
+const finishRound = (state: GameState, winnerIndex: number, events: GameEvent[]): GameState => {
+  const winner = state.players[winnerIndex];
+  const points = state.players
+    .filter(p => !isPartner(p, winner))
+    .reduce((sum, p) => sum + scoreHand(p.hand), 0);
+  const scorers = state.players.filter(p => p.id === winner.id || isPartner(p, winner));
+  const scores = { ...state.scores };
+  scorers.forEach(p => { scores[p.id] = (scores[p.id] || 0) + points; });
+  const matchOver = scores[winner.id] >= state.targetScore;
+
+  events.push({ type: 'ROUND_WON', playerId: winner.id, points });
+  if (matchOver) events.push({ type: 'GAME_WON', playerId: winner.id });
+
+  return {
+    ...state,
+    status: matchOver ? GameStatus.GAME_OVER : GameStatus.ROUND_OVER,
+    winner,
+    scores,
+    roundHistory: [...state.roundHistory, { round: state.roundNumber, winnerId: winner.id, ...(winner.team !== undefined ? { team: winner.team } : {}), points }],
+  };
+};
+
+const playCard = (state: GameState, playerIndex: number, action: PlayerAction): ActionResult => {
+  const player = state.players[playerIndex];
+  const card = player.hand.find(c => c.id === action.cardId);
+  if (!card) return reject(state, player.id, 'CARD_NOT_IN_HAND');
+
+  const ctx = getPlayContext(state, playerIndex);
+  if (!canPlayCard(card, ctx)) return reject(state, player.id, ctx.isTurn ? 'INVALID_CARD' : 'NOT_YOUR_TURN');
+
+  const definition = CARD_DEFINITIONS[card.type];
+  const isWild = definition.wild;
+  if (isWild && (!action.wildColor || !getDeckColors(state.deck).includes(action.wildColor))) {
+    return reject(state, player.id, 'MISSING_COLOR');
+  }
+
+  const swapsHands = state.rules.sevenZero && card.type === 'number' && card.value === 7;
+  const targetIndex = state.players.findIndex(p => p.id === action.targetPlayerId);
+  if (swapsHands && player.hand.length > 1 && (targetIndex === -1 || targetIndex === playerIndex || state.players[targetIndex].eliminated)) {
+    return reject(state, player.id, 'MISSING_TARGET');
+  }
+
+  const events: GameEvent[] = [];
+  // Jump-in: the turn moves to whoever slapped down the identical card
+  if (!ctx.isTurn) events.push({ type: 'JUMPED_IN', playerId: player.id });
+
+  const color = isWild ? action.wildColor! : card.color;
+  events.push({ type: 'CARD_PLAYED', playerId: player.id, card, color });
+
+  // Discard-all: the rest of that color goes down underneath the card itself
+  const dumped = definition.effect === 'discardColor' ? player.hand.filter(c => c.id !== card.id && c.color === card.color) : [];
+  if (dumped.length > 0) events.push({ type: 'COLOR_DISCARDED', playerId: player.id, color: card.color, count: dumped.length });
+
+  const hand = player.hand.filter(c => c.id !== card.id && !dumped.includes(c));
+  let next = updatePlayer(
+    {
+      ...state,
+      currentPlayerIndex: playerIndex,
+      discardPile: [...state.discardPile, ...dumped, card],
+      currentColor: color,
+      drawnCardId: null,
+      pendingWild4: null,
+      missedColors: state.missedColors[player.id] === color ? omitKey(state.missedColors, player.id) : state.missedColors,
+      // Forgetting to call UNO leaves the player open to a catch. A jump-in is not a turn
+      // action, so whoever was already open to one stays open.
+      unoWindow: hand.length === 1 && !player.isUno ? player.id : ctx.isTurn ? null : state.unoWindow,
+    },
+    playerIndex,
+    { hand }
+  );
+
+  // Win Detection
+  if (next.players[playerIndex].hand.length === 0) {
+    return { state: finishRound(next, playerIndex, events), events };
+  }
+
+  let skipNext = false;
+  const victimIndex = () => getNextPlayerIndex(playerIndex, next.direction, next.players);
+  const chargeDraw = (amount: number) => {
+    if (next.rules.stackDrawCards) {
+      // The penalty waits for the next player, who may stack on top of it
+      next = { ...next, pendingDraw: next.pendingDraw + amount };
+      events.push({ type: 'DRAW_STACKED', playerId: player.id, total: next.pendingDraw });
+    } else {
+      next = drawCards(next, victimIndex(), amount, 'PENALTY', events);
+      skipNext = true;
+    }
+  };
+
+  const reverse = () => {
+    next = { ...next, direction: (next.direction * -1) as 1 | -1 };
+    events.push({ type: 'DIRECTION_CHANGED', direction: next.direction });
+  };
+
+  switch (definition.effect) {
+    case 'reverse':
+      reverse();
+      // With two players a reverse behaves like a skip
+      if (next.players.filter(p => !p.eliminated).length === 2) skipNext = true;
+      break;
+    case 'skip':
+      skipNext = true;
+      break;
+    case 'skipAll':
+      // Nobody else gets a turn: the same player plays again
+      events.push({ type: 'ALL_SKIPPED', playerId: player.id });
+      return { state: { ...next, turnCount: next.turnCount + 1 }, events };
+    case 'draw':
+      chargeDraw(definition.drawAmount!);
+      break;
+    case 'reverseDraw':
+      reverse();
+      chargeDraw(definition.drawAmount!);
+      break;
+    case 'drawColor':
+      // The named color for a wild (color roulette), the card's own otherwise
+      next = drawUntil(next, victimIndex(), 'PENALTY', drawn => drawn.color === color, events);
+      skipNext = true;
+      break;
+    case 'wildDraw':
+      // Nothing is drawn yet: the victim first decides whether to challenge
+      next = {
+        ...next,
+        pendingDraw: next.pendingDraw + definition.drawAmount!,
+        pendingWild4: { playerId: player.id, victimId: next.players[victimIndex()].id, bluffed: isWild4Bluff(hand, state.currentColor) },
+      };
+      if (next.rules.stackDrawCards) events.push({ type: 'DRAW_STACKED', playerId: player.id, total: next.pendingDraw });
+      break;
+    case 'none':
+      if (swapsHands) {
+        next = swapHands(next, playerIndex, targetIndex);
+        events.push({ type: 'HANDS_SWAPPED', playerId: player.id, targetPlayerId: next.players[targetIndex].id });
+      } else if (next.rules.sevenZero && card.type === 'number' && card.value === 0) {
+        next = rotateHands(next);
+        events.push({ type: 'HANDS_ROTATED', direction: next.direction });
+      }
+      break;
+  }
+
+  return { state: advanceTurn(next, skipNext, events), events };
+};
+
+const drawCard = (state: GameState, playerIndex: number): ActionResult => {
+  const player = state.players[playerIndex];
+  if (state.drawnCardId) return reject(state, player.id, 'ALREADY_DREW');
+
+  const events: GameEvent[] = [];
+  let next: GameState = { ...state, unoWindow: null };
+
+  // Giving up on a stack (or accepting a +4): take the whole penalty and lose the turn
+  if (next.pendingDraw > 0) {
+    next = drawCards({ ...next, pendingDraw: 0, pendingWild4: null }, playerIndex, next.pendingDraw, 'PENALTY', events);
+    return { state: advanceTurn(next, false, events), events };
+  }
+
+  // Everyone at the table saw which color this player could not follow
+  next = { ...next, missedColors: { ...next.missedColors, [player.id]: next.currentColor } };
+  next = next.rules.drawUntilPlayable
+    ? drawUntilPlayable(next, playerIndex, events)
+    : drawCards(next, playerIndex, 1, 'DRAW', events);
+
+  const hand = next.players[playerIndex].hand;
+  const drawn: Card | undefined = hand.length > player.hand.length ? hand[hand.length - 1] : undefined;
+  const keepsTurn = next.rules.drawUntilPlayable || next.rules.forcePlayAfterDraw;
+
+  if (drawn && keepsTurn && isCardValid(drawn, getTopCard(next), next.currentColor)) {
+    return { state: { ...next, drawnCardId: drawn.id }, events };
+  }
+  return { state: advanceTurn(next, false, events), events };
+};
+
+// Only possible after drawing a playable card that the rules don't force onto the table
+const passTurn = (state: GameState, playerIndex: number): ActionResult => {
+  const player = state.players[playerIndex];
+  if (!state.drawnCardId || state.rules.forcePlayAfterDraw) return reject(state, player.id, 'CANNOT_PASS');
+
+  const events: GameEvent[] = [{ type: 'TURN_PASSED', playerId: player.id }];
+  return { state: advanceTurn({ ...state, unoWindow: null }, false, events), events };
+};
+
+// Guilty: the offender draws the +4's cards and the challenger plays on (facing any older stack).
+// Innocent: the challenger draws the whole penalty plus two and loses the turn.
+const challengeWild4 = (state: GameState, playerIndex: number): ActionResult => {
+  const challenger = state.players[playerIndex];
+  const pending = state.pendingWild4;
+  if (!pending || pending.victimId !== challenger.id) return reject(state, challenger.id, 'NO_WILD4_PENDING');
+
+  const offenderIndex = state.players.findIndex(p => p.id === pending.playerId);
+  const wild4Draw = CARD_DEFINITIONS.wild4.drawAmount!;
+  const penalty = pending.bluffed ? wild4Draw : state.pendingDraw + WILD4_CHALLENGE_PENALTY;
+  const events: GameEvent[] = [
+    { type: 'WILD4_CHALLENGED', playerId: challenger.id, targetPlayerId: pending.playerId, success: pending.bluffed, penalty },
+  ];
+  const base: GameState = { ...state, pendingWild4: null, unoWindow: null };
+
+  if (pending.bluffed) {
+    const next = drawCards({ ...base, pendingDraw: base.pendingDraw - wild4Draw }, offenderIndex, penalty, 'PENALTY', events);
+    return { state: next, events };
+  }
+
+  const next = drawCards({ ...base, pendingDraw: 0 }, playerIndex, penalty, 'PENALTY', events);
+  return { state: advanceTurn(next, false, events), events };
+};
+
+const acceptWild4 = (state: GameState, playerIndex: number): ActionResult => {
+  const player = state.players[playerIndex];
+  if (!state.pendingWild4 || state.pendingWild4.victimId !== player.id) return reject(state, player.id, 'NO_WILD4_PENDING');
+  return drawCard(state, playerIndex);
+};
+
+// UNO may be called ahead of time (on your turn, holding two cards)
+// or afterwards, as long as nobody has acted since you went down to one.
+const callUno = (state: GameState, playerIndex: number): ActionResult => {
+  const player = state.players[playerIndex];
+  const isOwnWindow = state.unoWindow === player.id;
+  const isPreCall = playerIndex === state.currentPlayerIndex && player.hand.length === 2;
+  if (!isOwnWindow && !isPreCall) return reject(state, player.id, 'CANNOT_CALL_UNO');
+
+  return {
+    state: updatePlayer({ ...state, unoWindow: isOwnWindow ? null : state.unoWindow }, playerIndex, { isUno: true }),
+    events: [{ type: 'UNO_CALLED', playerId: player.id }],
+  };
+};
+
+const catchUno = (state: GameState, playerIndex: number, targetPlayerId?: string): ActionResult => {
+  const catcher = state.players[playerIndex];
+  const targetIndex = state.players.findIndex(p => p.id === targetPlayerId);
+  if (targetIndex === -1 || targetIndex === playerIndex || state.unoWindow !== targetPlayerId || isPartner(catcher, state.players[targetIndex])) {
+    return reject(state, catcher.id, 'NOTHING_TO_CATCH');
+  }
+
+  const events: GameEvent[] = [{ type: 'UNO_CAUGHT', playerId: targetPlayerId, catcherId: catcher.id }];
+  const next = drawCards({ ...state, unoWindow: null }, targetIndex, UNO_PENALTY, 'PENALTY', events);
+  return { state: next, events };
+};
+
+// Team mode: once per round, on your turn and before drawing, hand one card to your partner.
+// The turn goes on.
+const giveCard = (state: GameState, playerIndex: number, cardId?: string): ActionResult => {
+  const player = state.players[playerIndex];
+  const partnerIndex = state.players.findIndex(p => isPartner(p, player));
+  const canGive = !!state.teams?.passCard && partnerIndex !== -1 && !state.cardsGiven.includes(player.id)
+    && !state.drawnCardId && state.pendingDraw === 0 && player.hand.length >= GIVE_CARD_MIN_HAND;
+  if (!canGive) return reject(state, player.id, 'CANNOT_GIVE_CARD');
+  const card = player.hand.find(c => c.id === cardId);
+  if (!card) return reject(state, player.id, 'CARD_NOT_IN_HAND');
+
+  const partner = state.players[partnerIndex];
+  let next = updatePlayer({ ...state, unoWindow: null, cardsGiven: [...state.cardsGiven, player.id] }, playerIndex, { hand: player.hand.filter(c => c !== card) });
+  next = updatePlayer(next, partnerIndex, { hand: [...partner.hand, card], isUno: false });
+  return { state: next, events: [{ type: 'CARD_GIVEN', playerId: player.id, targetPlayerId: partner.id }] };
+};
+
+// Mercy rule: whoever reached MERCY_HAND_LIMIT cards is out for the round, their cards go
+// under the draw pile, and the last player (or team) still standing wins the round.
+const enforceMercyRule = ({ state, events }: ActionResult): ActionResult => {
+  if (!state.rules.mercyRule || state.status !== GameStatus.PLAYING) return { state, events };
+  let out = state.players.filter(p => !p.eliminated && p.hand.length >= MERCY_HAND_LIMIT);
+  if (out.length === 0) return { state, events };
+  // Everyone over the limit at once: the smallest hand stays in and takes the round,
+  // rather than leaving nobody to finish it
+  if (out.length === state.players.filter(p => !p.eliminated).length) {
+    const survivor = out.reduce((best, p) => p.hand.length < best.hand.length ? p : best);
+    out = out.filter(p => p !== survivor);
+  }
+
+  let next: GameState = { ...state, drawPile: [...state.drawPile, ...out.flatMap(p => p.hand)] };
+  out.forEach(p => {
+    events.push({ type: 'PLAYER_ELIMINATED', playerId: p.id, handCount: p.hand.length });
+    next = updatePlayer(next, next.players.findIndex(x => x.id === p.id), { hand: [], isUno: false, eliminated: true });
+    next = {
+      ...next,
+      unoWindow: next.unoWindow === p.id ? null : next.unoWindow,
+      missedColors: omitKey(next.missedColors, p.id),
+    };
+  });
+
+  const standing = next.players.filter(p => !p.eliminated);
+  if (standing.every(p => p.id === standing[0].id || isPartner(p, standing[0]))) {
+    return { state: finishRound(next, next.players.indexOf(standing[0]), events), events };
+  }
+  // Whoever was on turn when they went out hands it to the next seat still playing
+  if (next.players[next.currentPlayerIndex].eliminated) {
+    next = {
+      ...next,
+      currentPlayerIndex: getNextPlayerIndex(next.currentPlayerIndex, next.direction, next.players),
+      turnCount: next.turnCount + 1,
+      drawnCardId: null,
+    };
+  }
+  return { state: next, events };
+};
+
+// --- Public Reducer ---
+export const applyAction = (state: GameState, action: PlayerAction): ActionResult => {
+  const result = resolveAction(state, action);
+  return result.state === state ? result : enforceMercyRule(result);
+};
+
+const resolveAction = (state: GameState, action: PlayerAction): ActionResult => {
+  if (state.status !== GameStatus.PLAYING) return reject(state, action.playerId, 'GAME_NOT_ACTIVE');
+
+  const playerIndex = state.players.findIndex(p => p.id === action.playerId);
+  if (playerIndex === -1) return reject(state, action.playerId, 'UNKNOWN_PLAYER');
+  // Eliminated players sit the rest of the round out
+  if (state.players[playerIndex].eliminated) return reject(state, action.playerId, 'NOT_YOUR_TURN');
+
+  // UNO calls, catches and jump-ins happen out of turn
+  if (action.actionType === 'CALL_UNO') return callUno(state, playerIndex);
+  if (action.actionType === 'CATCH_UNO') return catchUno(state, playerIndex, action.targetPlayerId);
+  if (action.actionType === 'PLAY_CARD') return playCard(state, playerIndex, action);
+
+  if (playerIndex !== state.currentPlayerIndex) return reject(state, action.playerId, 'NOT_YOUR_TURN');
+
+  // Any turn action closes a pending UNO window (playCard may open a new one)
+  switch (action.actionType) {
+    case 'DRAW_CARD':
+      return drawCard(state, playerIndex);
+    case 'PASS_TURN':
+      return passTurn(state, playerIndex);
+    case 'CHALLENGE_WILD4':
+      return challengeWild4(state, playerIndex);
+    case 'ACCEPT_WILD4':
+      return acceptWild4(state, playerIndex);
+    case 'GIVE_CARD':
+      return giveCard(state, playerIndex, action.cardId);
+  }
+};
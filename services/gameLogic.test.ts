@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { Card } from "../types";
+import { CARD_DEFINITIONS, DECK_PRESET_IDS, DECK_PRESETS } from "../constants";
+import { createDeck } from "./gameLogic";
+
+const countWhere = (deck: Card[], match: (card: Card) => boolean) => deck.filter(match).length;
+
+describe('deck composition', () => {
+  it('deals the advertised 108 cards in the classic deck', () => {
+    expect(createDeck(() => 0, DECK_PRESETS.classic)).toHaveLength(108);
+    expect(createDeck(() => 0, DECK_PRESETS.extended)).toHaveLength(162);
+  });
+
+  it.each(DECK_PRESET_IDS)('builds the %s deck exactly as its preset describes', id => {
+    const definition = DECK_PRESETS[id];
+    const deck = createDeck(Math.random, definition);
+
+    definition.colors.forEach(color => {
+      definition.numbers.forEach((copies, value) => {
+        expect(countWhere(deck, card => card.color === color && card.type === 'number' && card.value === value)).toBe(copies);
+      });
+      Object.entries(definition.actions).forEach(([type, copies]) => {
+        expect(countWhere(deck, card => card.color === color && card.type === type)).toBe(copies);
+      });
+    });
+    Object.entries(definition.wilds).forEach(([type, copies]) => {
+      expect(countWhere(deck, card => card.color === 'black' && card.type === type)).toBe(copies);
+    });
+
+    const perColor = definition.numbers.reduce((sum, copies) => sum + copies, 0)
+      + Object.values(definition.actions).reduce((sum, copies) => sum + copies, 0);
+    const wilds = Object.values(definition.wilds).reduce((sum, copies) => sum + copies, 0);
+    expect(deck).toHaveLength(definition.colors.length * perColor + wilds);
+  });
+
+  it.each(DECK_PRESET_IDS)('gives every card of the %s deck its own id and the right points', id => {
+    const deck = createDeck(Math.random, DECK_PRESETS[id]);
+    expect(new Set(deck.map(card => card.id)).size).toBe(deck.length);
+    deck.forEach(card => {
+      expect(card.points).toBe(card.type === 'number' ? card.value : CARD_DEFINITIONS[card.type].points);
+    });
+  });
+});
@@ -1,52 +1,58 @@
-import { Card, CardColor, CardType, GameState, Player } from "../types";
-import { COLORS, POINTS } from "../constants";
+import { Card, CardColor, CardType, DeckDefinition, DeckPresetId, Player, RuleSet } from "../types";
+import { BOT_WILD4_CHALLENGE_CHANCE, CARD_DEFINITIONS, COLORS, DECK_PRESETS, DEFAULT_DECK } from "../constants";
+import { RandomFn } from "./random";
 
 // --- Deck Generation ---
-export const createDeck = (): Card[] => {
+// Builds the deck a definition describes, in a stable order before shuffling
+// (card ids depend on it, so replays deal the same cards).
+export const createDeck = (random: RandomFn, definition: DeckDefinition = DECK_PRESETS[DEFAULT_DECK]): Card[] => {
   const deck: Card[] = [];
   let idCounter = 0;
 
-  const addCard = (color: CardColor, type: CardType, value?: number, points: number = 0) => {
+  const addCard = (color: CardColor, type: CardType, value?: number) => {
+    const points = type === 'number' ? value! : CARD_DEFINITIONS[type].points;
     deck.push({ id: `card-${idCounter++}`, color, type, value, points });
   };
 
-  COLORS.forEach(color => {
-    // One 0
-    addCard(color, 'number', 0, POINTS.NUMBER);
-    // Two of 1-9
-    for (let i = 1; i <= 9; i++) {
-      addCard(color, 'number', i, POINTS.NUMBER);
-      addCard(color, 'number', i, POINTS.NUMBER);
-    }
-    // Two of each action
-    ['skip', 'reverse', 'draw2'].forEach(action => {
-      addCard(color, action as CardType, undefined, POINTS.ACTION);
-      addCard(color, action as CardType, undefined, POINTS.ACTION);
+  definition.colors.forEach(color => {
+    definition.numbers.forEach((copies, value) => {
+      for (let i = 0; i < copies; i++) addCard(color, 'number', value);
+    });
+    (Object.entries(definition.actions) as [CardType, number][]).forEach(([type, copies]) => {
+      for (let i = 0; i < copies; i++) addCard(color, type);
     });
   });
 
-  // Wilds (4 of each)
-  for (let i = 0; i < 4; i++) {
-    addCard('black', 'wild', undefined, POINTS.WILD);
-    addCard('black', 'wild4', undefined, POINTS.WILD);
+  // Wilds go in interleaved (one of each kind at a time)
+  const wilds = Object.entries(definition.wilds) as [CardType, number][];
+  const rounds = Math.max(0, ...wilds.map(([, copies]) => copies));
+  for (let i = 0; i < rounds; i++) {
+    wilds.forEach(([type, copies]) => { if (i < copies) addCard('black', type); });
   }
 
-  return shuffleDeck(deck);
+  return shuffleDeck(deck, random);
 };
 
-export const shuffleDeck = (deck: Card[]): Card[] => {
+export const getDeckColors = (deck: DeckPresetId): CardColor[] => DECK_PRESETS[deck].colors;
+
+export const isWildCard = (card: Card): boolean => CARD_DEFINITIONS[card.type].wild;
+
+export const shuffleDeck = (deck: Card[], random: RandomFn): Card[] => {
   const newDeck = [...deck];
   for (let i = newDeck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
   }
   return newDeck;
 };
 
+// --- Scoring ---
+export const scoreHand = (hand: Card[]): number => hand.reduce((sum, c) => sum + c.points, 0);
+
 // --- Validation ---
 export const isCardValid = (card: Card, topCard: Card, activeColor: CardColor): boolean => {
   // Wilds are always valid
-  if (card.color === 'black') return true;
+  if (isWildCard(card)) return true;
   
   // Match Color (Active color takes precedence over card color for previously played wilds)
   if (card.color === activeColor) return true;
@@ -60,32 +66,75 @@ export const isCardValid = (card: Card, topCard: Card, activeColor: CardColor):
   return false;
 };
 
+// Everything a seat needs to know to decide whether a card can go down right now.
+// Built from the full state on the host and from the PlayerView on clients.
+export interface PlayContext {
+  topCard: Card;
+  currentColor: CardColor;
+  rules: RuleSet;
+  pendingDraw: number;
+  drawnCardId: string | null;
+  isTurn: boolean;
+}
+
+export const isIdenticalCard = (a: Card, b: Card): boolean =>
+  !isWildCard(a) && a.color === b.color && a.type === b.type && a.value === b.value;
+
+// Stacking: a draw card goes on any draw card worth the same or less (+2 on +2, +4 on +2/+4...)
+export const canStackOn = (card: Card, topCard: Card): boolean => {
+  const amount = CARD_DEFINITIONS[card.type].drawAmount;
+  const charged = CARD_DEFINITIONS[topCard.type].drawAmount;
+  return amount !== undefined && charged !== undefined && amount >= charged;
+};
+
+export const canPlayCard = (card: Card, ctx: PlayContext): boolean => {
+  if (!ctx.isTurn) return ctx.rules.jumpIn && ctx.pendingDraw === 0 && isIdenticalCard(card, ctx.topCard);
+  if (ctx.pendingDraw > 0) return ctx.rules.stackDrawCards && canStackOn(card, ctx.topCard);
+  if (ctx.drawnCardId) return card.id === ctx.drawnCardId && isCardValid(card, ctx.topCard, ctx.currentColor);
+  return isCardValid(card, ctx.topCard, ctx.currentColor);
+};
+
 // --- AI Helper ---
-export const findBestMove = (hand: Card[], topCard: Card, activeColor: CardColor): Card | null => {
-  const validCards = hand.filter(c => isCardValid(c, topCard, activeColor));
+export const findBestMove = (hand: Card[], ctx: PlayContext): Card | null => {
+  const validCards = hand.filter(c => canPlayCard(c, ctx));
   
   if (validCards.length === 0) return null;
 
   // Simple Heuristic: 
-  // 1. Play +2 or Skip if available to hurt next player
+  // 1. Play an attack card (+2, Skip...) if available to hurt next player
   // 2. Play matching color logic to save Wilds
   // 3. Play Wilds last
 
-  const actions = validCards.filter(c => ['draw2', 'skip', 'reverse'].includes(c.type));
+  const actions = validCards.filter(c => !isWildCard(c) && CARD_DEFINITIONS[c.type].attack > 0);
   if (actions.length > 0) return actions[0];
 
-  const numbers = validCards.filter(c => c.color !== 'black');
+  const numbers = validCards.filter(c => !isWildCard(c));
   if (numbers.length > 0) return numbers[0];
 
   return validCards[0];
 };
 
-export const pickBestColor = (hand: Card[]): CardColor => {
-  const counts: Record<string, number> = { red: 0, blue: 0, green: 0, yellow: 0 };
-  hand.forEach(c => {
-    if (c.color !== 'black') counts[c.color]++;
-  });
-  
-  // Find key with max value
-  return Object.keys(counts).reduce((a, b) => counts[a] > counts[b] ? a : b) as CardColor;
+export const pickBestColor = (hand: Card[], colors: CardColor[] = COLORS): CardColor => {
+  const counts = (color: CardColor) => hand.filter(c => c.color === color).length;
+  // Find the color with the most cards
+  return colors.reduce((a, b) => counts(a) > counts(b) ? a : b);
+};
+
+// A +4 is only legal when the player holds nothing of the active color
+export const isWild4Bluff = (hand: Card[], activeColor: CardColor): boolean =>
+  hand.some(c => c.color === activeColor);
+
+// Challenging is a gamble: the more cards the offender holds, the likelier they had the color
+export const shouldChallengeWild4 = (offenderHandCount: number, random: RandomFn): boolean =>
+  offenderHandCount >= 3 && random() < BOT_WILD4_CHALLENGE_CHANCE;
+
+// Team mode: same team, different seat. Always false outside team mode.
+export const isPartner = (a: { id: string; team?: number }, b: { id: string; team?: number }): boolean =>
+  a.id !== b.id && a.team !== undefined && a.team === b.team;
+
+// 7-0: swap with whichever opponent holds the fewest cards (never the partner, nor an eliminated seat)
+export const pickSwapTarget = (players: Player[], selfId: string): string => {
+  const self = players.find(p => p.id === selfId)!;
+  const opponents = players.filter(p => p.id !== selfId && !isPartner(p, self) && !p.eliminated);
+  return opponents.reduce((a, b) => b.hand.length < a.hand.length ? b : a).id;
 };
\ No newline at end of file
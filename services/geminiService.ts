@@ -1,4 +1,5 @@
 import { GoogleGenAI } from "@google/genai";
+import { RandomFn } from "./random";
 
 const apiKey = process.env.API_KEY || ''; // Ensure this is available
 let ai: GoogleGenAI | null = null;
@@ -10,7 +11,8 @@ if (apiKey) {
 export const generateBotChat = async (
   botName: string,
   event: 'play_wild4' | 'play_skip' | 'uno' | 'win' | 'lose' | 'greeting',
-  gameStateDescription: string
+  gameStateDescription: string,
+  random: RandomFn = Math.random
 ): Promise<string> => {
   if (!ai) {
     // Fallback if no API key
@@ -23,7 +25,7 @@ export const generateBotChat = async (
       "Toma essa!",
       "Não acredito...",
     ];
-    return fallbacks[Math.floor(Math.random() * fallbacks.length)];
+    return fallbacks[Math.floor(random() * fallbacks.length)];
   }
 
   try {
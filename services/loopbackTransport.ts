@@ -0,0 +1,81 @@
+import { toPacket } from "./protocol";
+import { GameTransport, HostHandlers, TransportConnection } from "./transport";
+
+// In-memory transport: a host and its clients living in the same page (or test process).
+// Packets are cloned and delivered asynchronously, like on a real network.
+
+interface LoopbackRoom {
+  handlers: HostHandlers;
+  hostEnds: TransportConnection[];
+}
+
+const rooms = new Map<string, LoopbackRoom>();
+let linkCount = 0;
+
+// Two connected ends; closing either one closes both
+const createLink = (): [TransportConnection, TransportConnection] => {
+  const id = `loopback-${++linkCount}`;
+  let open = true;
+  const dataHandlers: ((data: unknown) => void)[][] = [[], []];
+  const closeHandlers: (() => void)[][] = [[], []];
+
+  const end = (side: 0 | 1): TransportConnection => ({
+    peerId: `${id}-${side === 0 ? 'client' : 'host'}`,
+    isOpen: () => open,
+    send: (message) => {
+      if (!open) return;
+      const copy = structuredClone(toPacket(message));
+      setTimeout(() => open && dataHandlers[1 - side].forEach(handler => handler(copy)), 0);
+    },
+    close: () => {
+      if (!open) return;
+      open = false;
+      setTimeout(() => closeHandlers.forEach(list => list.forEach(handler => handler())), 0);
+    },
+    onData: (handler) => { dataHandlers[side].push(handler); },
+    onClose: (handler) => { closeHandlers[side].push(handler); },
+  });
+
+  // [host's end (talks to the client), client's end (talks to the host)]
+  return [end(0), end(1)];
+};
+
+export const createLoopbackTransport = (): GameTransport => {
+  let hostedCode: string | null = null;
+  const clientEnds: TransportConnection[] = [];
+
+  return {
+    kind: 'loopback',
+    host: (roomCode, handlers) => {
+      if (rooms.has(roomCode)) {
+        setTimeout(() => handlers.onError('unavailable-id'), 0);
+        return;
+      }
+      rooms.set(roomCode, { handlers, hostEnds: [] });
+      hostedCode = roomCode;
+      setTimeout(handlers.onOpen, 0);
+    },
+    join: (roomCode, handlers) => {
+      const room = rooms.get(roomCode);
+      if (!room) {
+        setTimeout(() => handlers.onError('room-not-found'), 0);
+        return;
+      }
+      const [hostEnd, clientEnd] = createLink();
+      room.hostEnds.push(hostEnd);
+      clientEnds.push(clientEnd);
+      setTimeout(() => {
+        room.handlers.onConnection(hostEnd);
+        handlers.onOpen(clientEnd);
+      }, 0);
+    },
+    destroy: () => {
+      if (hostedCode) {
+        rooms.get(hostedCode)?.hostEnds.forEach(conn => conn.close());
+        rooms.delete(hostedCode);
+        hostedCode = null;
+      }
+      clientEnds.forEach(conn => conn.close());
+    },
+  };
+};
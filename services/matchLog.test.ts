@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { GameState, GameStatus, MatchLog, MatchSettings } from "../types";
+import { applyAction, createSeats, dealGame, startNextRound } from "./gameEngine";
+import { planTimedOutTurn } from "./botTurn";
+import { appendAction, appendNextRound, createMatchLog, parseMatchLog, replayMatch, serializeMatchLog } from "./matchLog";
+
+// Plays a match the way the host records one: every applied action goes into the log
+const playMatch = (settings: Partial<MatchSettings>, maxSteps = 2000): { states: GameState[]; log: MatchLog } => {
+  const seats = createSeats([0, 1, 2].map(i => ({ id: `p${i}`, name: `P${i}` })), 3, []);
+  let state = dealGame(seats, settings);
+  const { targetScore, rules, seed, turnTimeLimit, teams, deck } = state;
+  let log = createMatchLog(seats, { targetScore, rules, seed, turnTimeLimit, teams, deck });
+  const states = [state];
+
+  for (let step = 0; step < maxSteps && state.status !== GameStatus.GAME_OVER; step++) {
+    if (state.status === GameStatus.ROUND_OVER) {
+      state = startNextRound(state);
+      log = appendNextRound(log);
+      states.push(state);
+      continue;
+    }
+    planTimedOutTurn(state, state.currentPlayerIndex).forEach(action => {
+      const result = applyAction(state, action);
+      state = result.state;
+      log = appendAction(log, action, result.events);
+      states.push(state);
+    });
+  }
+  return { states, log };
+};
+
+describe('match replay', () => {
+  const settings: Partial<MatchSettings> = { seed: 2024, targetScore: 100 };
+
+  it('rebuilds every state the match went through from the log', () => {
+    const { states, log } = playMatch(settings);
+    expect(states.at(-1)!.status).toBe(GameStatus.GAME_OVER);
+    expect(replayMatch(log)).toEqual(states);
+  });
+
+  it('replays the same way after a round trip through the file format', () => {
+    const { log } = playMatch(settings);
+    expect(replayMatch(parseMatchLog(serializeMatchLog(log)))).toEqual(replayMatch(log));
+  });
+
+  it('refuses a file that is not a match log', () => {
+    expect(() => parseMatchLog('{"version": 0}')).toThrow();
+  });
+});
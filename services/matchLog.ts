@@ -0,0 +1,53 @@
+import { GameEvent, GameState, MatchLog, MatchSettings, Player, PlayerAction } from "../types";
+import { applyAction, dealGame, startNextRound } from "./gameEngine";
+
+export const MATCH_LOG_VERSION = 1;
+
+export const createMatchLog = (seats: Player[], settings: MatchSettings): MatchLog => ({
+  version: MATCH_LOG_VERSION,
+  createdAt: Date.now(),
+  seats: seats.map(p => ({ ...p, hand: [], isUno: false })),
+  settings,
+  entries: [],
+});
+
+export const appendAction = (log: MatchLog, action: PlayerAction, events: GameEvent[]): MatchLog => ({
+  ...log,
+  entries: [...log.entries, { kind: 'ACTION', action, events }],
+});
+
+export const appendNextRound = (log: MatchLog): MatchLog => ({
+  ...log,
+  entries: [...log.entries, { kind: 'NEXT_ROUND' }],
+});
+
+// Re-runs the match from its seed: frame 0 is the opening deal,
+// frame i is the state right after entries[i - 1].
+export const replayMatch = (log: MatchLog): GameState[] => {
+  const frames: GameState[] = [dealGame(log.seats, log.settings)];
+  log.entries.forEach(entry => {
+    const previous = frames[frames.length - 1];
+    frames.push(entry.kind === 'NEXT_ROUND' ? startNextRound(previous) : applyAction(previous, entry.action).state);
+  });
+  return frames;
+};
+
+export const serializeMatchLog = (log: MatchLog): string => JSON.stringify(log, null, 2);
+
+export const parseMatchLog = (text: string): MatchLog => {
+  const data = JSON.parse(text);
+  if (!data || data.version !== MATCH_LOG_VERSION || !Array.isArray(data.seats) || !Array.isArray(data.entries) || !data.settings) {
+    throw new Error('Arquivo de replay inválido');
+  }
+  return data as MatchLog;
+};
+
+export const downloadMatchLog = (log: MatchLog) => {
+  const blob = new Blob([serializeMatchLog(log)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `card-clash-${log.settings.seed}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,121 @@
+import { BotMove, Card, CardColor, GameState, GameStatus, PlayerAction } from "../types";
+import { BOT_EXPERT_ROLLOUT_DEPTH } from "../constants";
+import { canPlayCard, findBestMove, getDeckColors, isPartner, isWildCard, pickBestColor, pickSwapTarget, shuffleDeck } from "./gameLogic";
+import { applyAction, getPlayContext } from "./gameEngine";
+import { RandomFn } from "./random";
+
+// Monte Carlo search for the expert bot. Each iteration guesses the hidden cards
+// (opponents' hands and the draw pile order), applies one candidate move and plays the
+// round out with the normal heuristic for every seat. The move with the best average wins.
+
+interface Candidate {
+  card: Card | null; // null: draw, or pass after drawing
+  wildColor?: CardColor;
+  total: number;
+  visits: number;
+}
+
+// Redeals everything the bot cannot see. Opponents keep their hand sizes, and a player
+// known to have drawn on a color is dealt cards of that color only when nothing else is left.
+export const determinize = (state: GameState, botIndex: number, random: RandomFn): GameState => {
+  const hidden = shuffleDeck(
+    [...state.drawPile, ...state.players.flatMap((p, i) => (i === botIndex ? [] : p.hand))],
+    random
+  );
+
+  const players = state.players.map((p, i) => {
+    if (i === botIndex) return p;
+    const missed = state.missedColors[p.id];
+    const hand: Card[] = [];
+    for (let k = 0; k < hidden.length && hand.length < p.hand.length; k++) {
+      if (hidden[k].color !== missed) hand.push(...hidden.splice(k--, 1));
+    }
+    hand.push(...hidden.splice(0, p.hand.length - hand.length));
+    return { ...p, hand };
+  });
+
+  return { ...state, players, drawPile: hidden };
+};
+
+// The move the rollout policy makes for whoever is on turn
+const rolloutAction = (state: GameState): PlayerAction => {
+  const index = state.currentPlayerIndex;
+  const player = state.players[index];
+  const card = findBestMove(player.hand, getPlayContext(state, index));
+  return toAction(state, index, card, card && isWildCard(card) ? pickBestColor(player.hand, getDeckColors(state.deck)) : undefined);
+};
+
+const toAction = (state: GameState, index: number, card: Card | null, wildColor?: CardColor): PlayerAction => {
+  const player = state.players[index];
+  if (!card) {
+    if (state.pendingWild4?.victimId === player.id) return { actionType: 'ACCEPT_WILD4', playerId: player.id };
+    return { actionType: state.drawnCardId ? 'PASS_TURN' : 'DRAW_CARD', playerId: player.id };
+  }
+  const swapsHands = state.rules.sevenZero && card.type === 'number' && card.value === 7;
+  const targetPlayerId = swapsHands ? pickSwapTarget(state.players, player.id) : undefined;
+  return { actionType: 'PLAY_CARD', cardId: card.id, wildColor, targetPlayerId, playerId: player.id };
+};
+
+// 1 for winning the round (or the partner winning it), 0 for losing it;
+// unfinished rollouts are judged by hand sizes
+const evaluate = (state: GameState, botId: string): number => {
+  const bot = state.players.find(p => p.id === botId)!;
+  const isOurs = (p: { id: string; team?: number }) => p.id === botId || isPartner(p, bot);
+  if (state.status !== GameStatus.PLAYING) return state.winner && isOurs(state.winner) ? 1 : 0;
+  // Eliminated seats hold nothing but are out of the race
+  const standing = state.players.filter(p => !p.eliminated);
+  const mine = Math.min(...standing.filter(isOurs).map(p => p.hand.length));
+  const best = Math.min(...standing.filter(p => !isOurs(p)).map(p => p.hand.length));
+  return Math.max(0, Math.min(1, 0.5 + (best - mine) * 0.05));
+};
+
+const rollout = (start: GameState, botId: string): number => {
+  let state = start;
+  for (let step = 0; step < BOT_EXPERT_ROLLOUT_DEPTH && state.status === GameStatus.PLAYING; step++) {
+    const next = applyAction(state, rolloutAction(state)).state;
+    if (next === state) break; // The policy got stuck (e.g. empty piles)
+    state = next;
+  }
+  return evaluate(state, botId);
+};
+
+const listCandidates = (state: GameState, botIndex: number): Candidate[] => {
+  const ctx = getPlayContext(state, botIndex);
+  const candidates: Candidate[] = [];
+  state.players[botIndex].hand.filter(c => canPlayCard(c, ctx)).forEach(card => {
+    if (isWildCard(card)) getDeckColors(state.deck).forEach(wildColor => candidates.push({ card, wildColor, total: 0, visits: 0 }));
+    else candidates.push({ card, total: 0, visits: 0 });
+  });
+  // Taking a stacked penalty, or keeping a drawn card when the rules allow it
+  if (state.pendingDraw > 0 || (state.drawnCardId && !state.rules.forcePlayAfterDraw)) {
+    candidates.push({ card: null, total: 0, visits: 0 });
+  }
+  return candidates;
+};
+
+// Round-robins the candidates until the time budget runs out
+export const searchBestMove = (
+  state: GameState,
+  botIndex: number,
+  random: RandomFn,
+  budgetMs: number
+): BotMove | null => {
+  const candidates = listCandidates(state, botIndex);
+  const playable = candidates.filter(c => c.card);
+  if (playable.length === 0) return null;
+  if (candidates.length === 1) return { card: playable[0].card!, wildColor: playable[0].wildColor };
+
+  const botId = state.players[botIndex].id;
+  const deadline = Date.now() + budgetMs;
+  do {
+    for (const candidate of candidates) {
+      const sample = determinize(state, botIndex, random);
+      const after = applyAction(sample, toAction(sample, botIndex, candidate.card, candidate.wildColor)).state;
+      candidate.total += rollout(after, botId);
+      candidate.visits++;
+    }
+  } while (Date.now() < deadline);
+
+  const best = candidates.reduce((a, b) => b.total / b.visits > a.total / a.visits ? b : a);
+  return best.card ? { card: best.card, wildColor: best.wildColor } : null;
+};
@@ -0,0 +1,51 @@
+import { toPacket } from "./protocol";
+import { GameTransport, TransportConnection, TransportError, roomPeerId } from "./transport";
+
+// Globals for PeerJS (window.Peer)
+declare global {
+  interface Window {
+    Peer: any;
+  }
+}
+
+const toTransportError = (err: any): TransportError => {
+  if (err?.type === 'unavailable-id') return 'unavailable-id';
+  if (err?.type === 'peer-unavailable') return 'room-not-found';
+  return 'network';
+};
+
+const wrapConnection = (conn: any): TransportConnection => ({
+  peerId: conn.peer,
+  isOpen: () => conn.open,
+  send: (message) => conn.send(toPacket(message)),
+  close: () => conn.close(),
+  onData: (handler) => conn.on('data', (data: unknown) => handler(data)),
+  onClose: (handler) => conn.on('close', handler),
+});
+
+// Browser-to-browser over WebRTC; the host registers the room code with the PeerJS broker
+export const createPeerTransport = (): GameTransport => {
+  let peer: any = null;
+
+  return {
+    kind: 'peer',
+    host: (roomCode, handlers) => {
+      peer = new window.Peer(roomPeerId(roomCode));
+      peer.on('open', () => handlers.onOpen());
+      peer.on('connection', (conn: any) => handlers.onConnection(wrapConnection(conn)));
+      peer.on('error', (err: any) => handlers.onError(toTransportError(err)));
+    },
+    join: (roomCode, handlers) => {
+      peer = new window.Peer();
+      peer.on('open', () => {
+        const conn = peer.connect(roomPeerId(roomCode), { reliable: true });
+        conn.on('open', () => handlers.onOpen(wrapConnection(conn)));
+      });
+      peer.on('error', (err: any) => handlers.onError(toTransportError(err)));
+    },
+    destroy: () => {
+      peer?.destroy();
+      peer = null;
+    },
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import { GameState, GameStatus } from "../types";
+import { applyAction, createSeats, dealGame } from "./gameEngine";
+import { getPlayerView } from "./playerView";
+
+const deal = (): GameState => {
+  const seats = createSeats([0, 1, 2].map(i => ({ id: `p${i}`, name: `P${i}` })), 3, []);
+  return dealGame(seats, { seed: 7 });
+};
+
+describe('player views', () => {
+  it('shows a player their own hand and only card counts for everyone else', () => {
+    const state = deal();
+    const view = getPlayerView(state, 'p1');
+    expect(view.myHand).toEqual(state.players[1].hand);
+    view.players.forEach((p, i) => {
+      expect(p.hand).toBeUndefined();
+      expect(p.handCount).toBe(state.players[i].hand.length);
+    });
+  });
+
+  it('leaves out every card the player may not see', () => {
+    const state = deal();
+    const serialized = JSON.stringify(getPlayerView(state, 'p1'));
+    const hidden = [...state.players[0].hand, ...state.players[2].hand, ...state.drawPile];
+    hidden.forEach(card => expect(serialized).not.toContain(`"${card.id}"`));
+    expect(serialized).not.toContain('rngState');
+  });
+
+  it('tells only the player who drew which card it was', () => {
+    const state = deal();
+    const drawer = state.players[state.currentPlayerIndex].id;
+    // Drawing until playable always ends on a card the drawer keeps the turn for
+    const { state: next } = applyAction({ ...state, rules: { ...state.rules, drawUntilPlayable: true } }, { actionType: 'DRAW_CARD', playerId: drawer });
+    expect(next.drawnCardId).not.toBeNull();
+    expect(getPlayerView(next, drawer).drawnCardId).toBe(next.drawnCardId);
+    next.players.filter(p => p.id !== drawer).forEach(p => expect(getPlayerView(next, p.id).drawnCardId).toBeNull());
+  });
+});
+
+describe('the seed', () => {
+  it('stays hidden until the match is over', () => {
+    const state = deal();
+    expect(getPlayerView(state, 'p0').seed).toBeNull();
+    expect(getPlayerView({ ...state, status: GameStatus.ROUND_OVER }, 'p0').seed).toBeNull();
+    expect(getPlayerView({ ...state, status: GameStatus.GAME_OVER }, 'p0').seed).toBe(7);
+  });
+});
+
+describe('team views', () => {
+  const dealTeams = (showPartnerHand: boolean) => {
+    const seats = createSeats([0, 1, 2, 3].map(i => ({ id: `p${i}`, name: `P${i}` })), 4, []);
+    return dealGame(seats, { seed: 7, teams: { showPartnerHand, passCard: false } });
+  };
+
+  it('shows the partner their hand when the teams allow it, and never the opponents', () => {
+    const state = dealTeams(true);
+    const view = getPlayerView(state, 'p0');
+    expect(view.players[2].hand).toEqual(state.players[2].hand);
+    expect(view.players[1].hand).toBeUndefined();
+    expect(view.players[3].hand).toBeUndefined();
+  });
+
+  it('keeps the partner hand hidden otherwise', () => {
+    expect(getPlayerView(dealTeams(false), 'p0').players[2].hand).toBeUndefined();
+  });
+});
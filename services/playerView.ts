@@ -0,0 +1,76 @@
+import { GameState, GameStatus, Player, PlayerView, PublicPlayer } from "../types";
+import { PlayContext, isPartner } from "./gameLogic";
+
+// How many discards are visible on the table (the pile is drawn slightly fanned out)
+const VISIBLE_DISCARDS = 3;
+
+export const toPublicPlayer = (player: Player): PublicPlayer => ({
+  id: player.id,
+  name: player.name,
+  avatar: player.avatar,
+  isBot: player.isBot,
+  isUno: player.isUno,
+  isHost: player.isHost,
+  difficulty: player.difficulty,
+  isAway: player.isAway,
+  team: player.team,
+  eliminated: player.eliminated,
+  handCount: player.hand.length,
+});
+
+// Redacts the authoritative state down to what `playerId` may see:
+// their own hand, opponents' card counts (the partner's cards too, if the teams allow it)
+// and the public table.
+export const getPlayerView = (state: GameState, playerId: string): PlayerView => {
+  const me = state.players.find(p => p.id === playerId);
+  const isMyTurn = state.players[state.currentPlayerIndex]?.id === playerId;
+  const seesHand = (p: Player) => !!me && !!state.teams?.showPartnerHand && isPartner(p, me);
+
+  return {
+    status: state.status,
+    players: state.players.map(p => seesHand(p) ? { ...toPublicPlayer(p), hand: p.hand } : toPublicPlayer(p)),
+    myHand: me ? me.hand : [],
+    currentPlayerIndex: state.currentPlayerIndex,
+    direction: state.direction,
+    recentDiscards: state.discardPile.slice(-VISIBLE_DISCARDS),
+    drawPileCount: state.drawPile.length,
+    discardPileCount: state.discardPile.length,
+    currentColor: state.currentColor,
+    winner: state.winner ? toPublicPlayer(state.winner) : null,
+    turnCount: state.turnCount,
+    roundNumber: state.roundNumber,
+    targetScore: state.targetScore,
+    scores: state.scores,
+    roundHistory: state.roundHistory,
+    teams: state.teams,
+    cardsGiven: state.cardsGiven,
+    deck: state.deck,
+    // The seed rebuilds every hand and the draw order, so it is only revealed once the match is over
+    seed: state.status === GameStatus.GAME_OVER ? state.seed : null,
+    unoWindow: state.unoWindow,
+    rules: state.rules,
+    turnTimeLimit: state.turnTimeLimit,
+    pendingDraw: state.pendingDraw,
+    // Card ids are tied to the deck composition, so the drawn id stays private
+    drawnCardId: isMyTurn ? state.drawnCardId : null,
+    pendingWild4: state.pendingWild4 && { playerId: state.pendingWild4.playerId, victimId: state.pendingWild4.victimId },
+    missedColors: state.missedColors,
+  };
+};
+
+// A spectator has no seat: the public table, plus every hand if the host chose to show them
+export const getSpectatorView = (state: GameState, revealHands: boolean): PlayerView => {
+  const view = getPlayerView(state, '');
+  if (!revealHands) return view;
+  return { ...view, players: state.players.map(p => ({ ...toPublicPlayer(p), hand: p.hand })) };
+};
+
+// Client-side counterpart of getPlayContext, for highlighting and pre-validating plays
+export const getViewPlayContext = (view: PlayerView, playerId: string): PlayContext => ({
+  topCard: view.recentDiscards[view.recentDiscards.length - 1],
+  currentColor: view.currentColor,
+  rules: view.rules,
+  pendingDraw: view.pendingDraw,
+  drawnCardId: view.drawnCardId,
+  isTurn: view.players[view.currentPlayerIndex]?.id === playerId,
+});
@@ -0,0 +1,170 @@
+import { NetworkPacket } from "../types";
+import { toPacket } from "./protocol";
+import { POLL_INTERVAL_MS } from "../constants";
+import { api } from "./vercelService";
+import { GameTransport, TransportConnection } from "./transport";
+
+// Plain HTTP through /api/game, for networks where WebRTC is blocked. The host still runs
+// in a browser; the API only relays packets, and both sides poll it for theirs.
+
+const createPeerId = () => Math.random().toString(36).substring(2, 11);
+
+// A connection whose packets come from polling and go out through `deliver`
+const createPolledConnection = (peerId: string, deliver: (packet: NetworkPacket) => void) => {
+  let open = true;
+  const dataHandlers: ((data: unknown) => void)[] = [];
+  const closeHandlers: (() => void)[] = [];
+
+  const conn: TransportConnection = {
+    peerId,
+    isOpen: () => open,
+    send: (message) => { if (open) deliver(toPacket(message)); },
+    close: () => markClosed(),
+    onData: (handler) => { dataHandlers.push(handler); },
+    onClose: (handler) => { closeHandlers.push(handler); },
+  };
+  const receive = (data: unknown) => { if (open) dataHandlers.forEach(handler => handler(data)); };
+  const markClosed = () => {
+    if (!open) return;
+    open = false;
+    closeHandlers.forEach(handler => handler());
+  };
+  return { conn, receive, markClosed };
+};
+
+export const createPollingTransport = (): GameTransport => {
+  const myId = createPeerId();
+  let roomCode = '';
+  // Handed out by the API when we open or join; every later request must carry it
+  let token = '';
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let destroyed = false;
+
+  // Polls one request at a time, so acknowledgements never race
+  const startPolling = (tick: () => Promise<boolean>) => {
+    const loop = async () => {
+      if (destroyed) return;
+      if (await tick()) timer = setTimeout(loop, POLL_INTERVAL_MS);
+    };
+    loop();
+  };
+
+  return {
+    kind: 'polling',
+    host: async (code, handlers) => {
+      roomCode = code;
+      const opened = await api.openRoom(code, myId);
+      if (destroyed) return;
+      if (opened.status === 409) return handlers.onError('unavailable-id');
+      if (!opened.token) return handlers.onError('network');
+      token = opened.token;
+
+      const clients = new Map<string, ReturnType<typeof createPolledConnection>>();
+      let outgoing: { to: string, packet: NetworkPacket }[] = [];
+      let flushing = false;
+      // 403: our token no longer opens the room, another host holds the code now
+      let lost = false;
+      const loseRoom = () => {
+        if (lost) return;
+        lost = true;
+        handlers.onError('room-lost');
+      };
+      // Batches whatever the host sends in one go into a single request
+      const flush = async () => {
+        if (flushing || outgoing.length === 0 || destroyed || lost) return;
+        flushing = true;
+        const packets = outgoing;
+        outgoing = [];
+        const status = await api.updateGameState(code, myId, token, packets);
+        flushing = false;
+        if (destroyed) return;
+        if (status === 403) return loseRoom();
+        if (status === 0 || status === 404 || status === 429 || status >= 500) {
+          // Not delivered (unreachable, or the room is being reopened): send again with what queued up since
+          outgoing = [...packets, ...outgoing];
+          setTimeout(flush, POLL_INTERVAL_MS);
+          return;
+        }
+        if (status !== 200) console.error(`/api/game refused ${packets.length} packet(s) (HTTP ${status})`);
+        if (outgoing.length > 0) flush();
+      };
+
+      let after = 0;
+      handlers.onOpen();
+      startPolling(async () => {
+        const { status: pollStatus, result } = await api.getRoomState(code, myId, token, after);
+        if (destroyed || lost) return false;
+        if (pollStatus === 403) {
+          loseRoom();
+          return false;
+        }
+        if (pollStatus === 404) {
+          // The room expired while we were unreachable; take the code again
+          const reopened = await api.openRoom(code, myId);
+          if (!reopened.token) {
+            handlers.onError('network');
+            return false;
+          }
+          token = reopened.token;
+          return true;
+        }
+        if (!result) return true;
+
+        result.envelopes.forEach(envelope => {
+          after = Math.max(after, envelope.seq);
+          if (!envelope.from) return;
+          let client = clients.get(envelope.from);
+          if (!client) {
+            const to = envelope.from;
+            client = createPolledConnection(to, packet => {
+              outgoing.push({ to, packet });
+              setTimeout(flush, 0);
+            });
+            clients.set(to, client);
+            handlers.onConnection(client.conn);
+          }
+          client.receive(envelope.packet);
+        });
+        result.departed.forEach(peerId => {
+          clients.get(peerId)?.markClosed();
+          clients.delete(peerId);
+        });
+        return true;
+      });
+    },
+    join: async (code, handlers) => {
+      roomCode = code;
+      const joined = await api.joinRoom(code, myId);
+      if (destroyed) return;
+      if (joined.status === 404 || joined.status === 410) return handlers.onError('room-not-found');
+      if (!joined.token) return handlers.onError('network');
+      token = joined.token;
+
+      let after = 0;
+      // One request at a time keeps our packets in order
+      let sending: Promise<unknown> = Promise.resolve();
+      const host = createPolledConnection('host', packet => {
+        sending = sending.then(() => api.sendAction(code, myId, token, packet));
+      });
+      handlers.onOpen(host.conn);
+      startPolling(async () => {
+        const { status, result } = await api.getRoomState(code, myId, token, after);
+        if (destroyed) return false;
+        if (status === 403 || status === 404 || status === 410) {
+          host.markClosed();
+          return false;
+        }
+        result?.envelopes.forEach(envelope => {
+          after = Math.max(after, envelope.seq);
+          host.receive(envelope.packet);
+        });
+        return true;
+      });
+    },
+    destroy: () => {
+      destroyed = true;
+      clearTimeout(timer);
+      if (roomCode && token) api.leaveRoom(roomCode, myId, token);
+    },
+  };
+};
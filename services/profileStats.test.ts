@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { Card, CardColor, CardType, GameState, GameStatus, PlayerAction } from "../types";
+import { CARD_DEFINITIONS } from "../constants";
+import { applyAction, createSeats, dealGame } from "./gameEngine";
+import { getPlayerView } from "./playerView";
+import { averageHandPoints, createEmptyStats, favouriteColor, updateStats } from "./profileStats";
+
+const card = (id: string, color: CardColor, type: CardType = 'number', value?: number): Card =>
+  ({ id, color, type, value, points: type === 'number' ? value ?? 0 : CARD_DEFINITIONS[type].points });
+
+// Two seats with hands set by hand; p0 is on turn
+const setup = (hands: Card[][], overrides: Partial<GameState> = {}): GameState => {
+  const seats = createSeats([{ id: 'p0', name: 'P0' }, { id: 'p1', name: 'P1' }], 2, []);
+  const dealt = dealGame(seats, { seed: 3, targetScore: 100 });
+  return {
+    ...dealt,
+    players: dealt.players.map((p, i) => ({ ...p, hand: hands[i] })),
+    discardPile: [card('top', 'red', 'number', 3)],
+    currentColor: 'red',
+    currentPlayerIndex: 0,
+    ...overrides,
+  };
+};
+
+// Folds one action into the stats of the given seat
+const statsAfter = (state: GameState, action: PlayerAction, playerId: string) => {
+  const next = applyAction(state, action).state;
+  return updateStats(createEmptyStats(), getPlayerView(state, playerId), getPlayerView(next, playerId), playerId);
+};
+
+describe('profile stats', () => {
+  it('counts a wild draw four under the color it named', () => {
+    const state = setup([[card('w4', 'black', 'wild4'), card('f', 'blue', 'number', 1)], [card('b', 'green', 'number', 1)]]);
+    const stats = statsAfter(state, { actionType: 'PLAY_CARD', cardId: 'w4', wildColor: 'blue', playerId: 'p0' }, 'p0');
+    expect(stats).toMatchObject({ colorsPlayed: { blue: 1 }, wild4Played: 1, roundsFinished: 0, gamesPlayed: 0 });
+    expect(favouriteColor(stats)).toBe('blue');
+  });
+
+  it('does not count an opponent playing a card', () => {
+    const state = setup([[card('r', 'red', 'number', 5), card('f', 'blue', 'number', 1)], [card('b', 'green', 'number', 1)]]);
+    const stats = createEmptyStats();
+    const next = applyAction(state, { actionType: 'PLAY_CARD', cardId: 'r', playerId: 'p0' }).state;
+    expect(updateStats(stats, getPlayerView(state, 'p1'), getPlayerView(next, 'p1'), 'p1')).toBe(stats);
+  });
+
+  it('records the match for both sides when the last card wins it', () => {
+    const state = setup([[card('r', 'red', 'number', 5)], [card('b', 'green', 'number', 7), card('s', 'blue', 'skip')]], { scores: { p0: 95, p1: 0 } });
+    const action: PlayerAction = { actionType: 'PLAY_CARD', cardId: 'r', playerId: 'p0' };
+    expect(applyAction(state, action).state.status).toBe(GameStatus.GAME_OVER);
+
+    expect(statsAfter(state, action, 'p0')).toMatchObject({ gamesPlayed: 1, wins: 1, roundsFinished: 1, handPoints: 0 });
+    const loser = statsAfter(state, action, 'p1');
+    expect(loser).toMatchObject({ gamesPlayed: 1, wins: 0, roundsFinished: 1, handPoints: 7 + CARD_DEFINITIONS.skip.points });
+    expect(averageHandPoints(loser)).toBe(7 + CARD_DEFINITIONS.skip.points);
+  });
+
+  it('ignores the first view and the step into a new round', () => {
+    const state = setup([[card('r', 'red', 'number', 5)], [card('b', 'green', 'number', 1)]]);
+    const stats = createEmptyStats();
+    const view = getPlayerView(state, 'p0');
+    expect(updateStats(stats, null, view, 'p0')).toBe(stats);
+    expect(updateStats(stats, view, { ...view, roundNumber: view.roundNumber + 1, recentDiscards: [card('r', 'red', 'number', 5)] }, 'p0')).toBe(stats);
+  });
+
+  it('averages hand points per finished round and has no favourite before any card is played', () => {
+    expect(averageHandPoints(createEmptyStats())).toBe(0);
+    expect(averageHandPoints({ ...createEmptyStats(), roundsFinished: 3, handPoints: 40 })).toBe(13);
+    expect(favouriteColor(createEmptyStats())).toBeNull();
+    expect(favouriteColor({ ...createEmptyStats(), colorsPlayed: { red: 2, green: 5, blue: 1 } })).toBe('green');
+  });
+});
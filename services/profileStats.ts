@@ -0,0 +1,66 @@
+import { CardColor, GameStatus, MatchLog, MatchRecord, PlayerView, ProfileStats } from "../types";
+import { isPartner, isWildCard, scoreHand } from "./gameLogic";
+import { createSessionToken } from "./session";
+
+// Profile statistics are folded in from the seat's own view as the match goes, so hosts,
+// clients and offline players all count the same way. A card counts as played once it
+// tops the discard pile right after leaving our hand.
+
+export const createEmptyStats = (): ProfileStats => ({
+  gamesPlayed: 0,
+  wins: 0,
+  roundsFinished: 0,
+  handPoints: 0,
+  colorsPlayed: {},
+  wild4Played: 0,
+});
+
+// Our seat won the match (in team mode, our partner counts)
+export const wonMatch = (view: PlayerView, playerId: string): boolean => {
+  const me = view.players.find(p => p.id === playerId);
+  return !!view.winner && !!me && (view.winner.id === playerId || isPartner(view.winner, me));
+};
+
+// Returns `stats` itself when nothing in the step from `prev` to `next` counts
+export const updateStats = (stats: ProfileStats, prev: PlayerView | null, next: PlayerView, playerId: string): ProfileStats => {
+  if (!prev || prev.status !== GameStatus.PLAYING || prev.roundNumber !== next.roundNumber) return stats;
+  let updated = stats;
+
+  const top = next.recentDiscards[next.recentDiscards.length - 1];
+  const previousTop = prev.recentDiscards[prev.recentDiscards.length - 1];
+  if (top && top.id !== previousTop?.id && prev.myHand.some(c => c.id === top.id)) {
+    const color = isWildCard(top) ? next.currentColor : top.color;
+    updated = {
+      ...updated,
+      colorsPlayed: { ...updated.colorsPlayed, [color]: (updated.colorsPlayed[color] || 0) + 1 },
+      wild4Played: updated.wild4Played + (top.type === 'wild4' ? 1 : 0),
+    };
+  }
+
+  if (next.status !== GameStatus.PLAYING) {
+    updated = { ...updated, roundsFinished: updated.roundsFinished + 1, handPoints: updated.handPoints + scoreHand(next.myHand) };
+  }
+  if (next.status === GameStatus.GAME_OVER) {
+    updated = { ...updated, gamesPlayed: updated.gamesPlayed + 1, wins: updated.wins + (wonMatch(next, playerId) ? 1 : 0) };
+  }
+  return updated;
+};
+
+export const averageHandPoints = (stats: ProfileStats): number =>
+  stats.roundsFinished > 0 ? Math.round(stats.handPoints / stats.roundsFinished) : 0;
+
+export const favouriteColor = (stats: ProfileStats): CardColor | null => {
+  const played = Object.entries(stats.colorsPlayed) as [CardColor, number][];
+  if (played.length === 0) return null;
+  return played.reduce((a, b) => b[1] > a[1] ? b : a)[0];
+};
+
+export const createMatchRecord = (view: PlayerView, playerId: string, profileId: string, log: MatchLog | null): MatchRecord => ({
+  id: createSessionToken(),
+  profileId,
+  finishedAt: Date.now(),
+  won: wonMatch(view, playerId),
+  rounds: view.roundNumber,
+  players: view.players.map(p => ({ name: p.name, avatar: p.avatar, score: view.scores[p.id] ?? 0, isMe: p.id === playerId })),
+  log,
+});
@@ -0,0 +1,93 @@
+import { MatchRecord, PlayerProfile } from "../types";
+import { AVATARS, DEFAULT_PLAYER_NAME, MATCH_HISTORY_LIMIT } from "../constants";
+import { createEmptyStats } from "./profileStats";
+import { createSessionToken } from "./session";
+
+// The local profile and its match history, kept in IndexedDB (replays are too big for localStorage).
+// Storage failures never break the game: the profile then only lives for this page.
+
+const DB_NAME = 'card-clash';
+const DB_VERSION = 1;
+const PROFILE_STORE = 'profile';
+const MATCH_STORE = 'matches';
+const PROFILE_KEY = 'me';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(PROFILE_STORE);
+        db.createObjectStore(MATCH_STORE, { keyPath: 'id' }).createIndex('finishedAt', 'finishedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs one request in its own transaction and resolves once that transaction commits
+const run = async <T>(storeName: string, mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const createProfile = (): PlayerProfile => ({
+  id: createSessionToken(),
+  name: DEFAULT_PLAYER_NAME,
+  avatar: AVATARS[0],
+  createdAt: Date.now(),
+  stats: createEmptyStats(),
+});
+
+export const saveProfile = async (profile: PlayerProfile): Promise<void> => {
+  try {
+    await run(PROFILE_STORE, 'readwrite', store => store.put(profile, PROFILE_KEY));
+  } catch {
+    // Private mode or no IndexedDB: the profile lasts until the page closes
+  }
+};
+
+// The stored profile, or a brand new one (saved right away so its id stays stable)
+export const loadProfile = async (): Promise<PlayerProfile> => {
+  try {
+    const stored = await run<PlayerProfile | undefined>(PROFILE_STORE, 'readonly', store => store.get(PROFILE_KEY));
+    if (stored) return { ...stored, stats: { ...createEmptyStats(), ...stored.stats } };
+  } catch {
+    // Fall through to a fresh profile
+  }
+  const profile = createProfile();
+  await saveProfile(profile);
+  return profile;
+};
+
+// Newest first
+export const listMatchRecords = async (): Promise<MatchRecord[]> => {
+  try {
+    const records = await run<MatchRecord[]>(MATCH_STORE, 'readonly', store => store.index('finishedAt').getAll());
+    return records.reverse();
+  } catch {
+    return [];
+  }
+};
+
+export const addMatchRecord = async (record: MatchRecord): Promise<void> => {
+  try {
+    await run(MATCH_STORE, 'readwrite', store => store.put(record));
+    const records = await listMatchRecords();
+    await Promise.all(records.slice(MATCH_HISTORY_LIMIT).map(old => run(MATCH_STORE, 'readwrite', store => store.delete(old.id))));
+  } catch {
+    // History is a nice-to-have: a failed write just loses this entry
+  }
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { NetworkMessage, StartGameRequest } from "../types";
+import { DEFAULT_RULES, PROTOCOL_VERSION } from "../constants";
+import { toPacket, validatePacket } from "./protocol";
+
+const action: NetworkMessage = { type: 'PLAYER_ACTION', payload: { actionType: 'PLAY_CARD', cardId: 'card-1', wildColor: 'red', playerId: 'p1' } };
+const startGame = (overrides: Partial<StartGameRequest> = {}): NetworkMessage =>
+  ({ type: 'START_GAME', payload: { targetScore: 500, rules: DEFAULT_RULES, botDifficulties: ['easy'], ...overrides } });
+
+describe('validatePacket', () => {
+  it('accepts a well-formed packet stamped with our version', () => {
+    const check = validatePacket(toPacket(action), 'client');
+    expect(check).toEqual({ ok: true, packet: { ...action, version: PROTOCOL_VERSION } });
+  });
+
+  it('answers a packet from another protocol version with VERSION_MISMATCH', () => {
+    const check = validatePacket({ ...toPacket(action), version: PROTOCOL_VERSION - 1 }, 'client');
+    expect(check).toMatchObject({ ok: false, reply: { type: 'VERSION_MISMATCH', payload: { expected: PROTOCOL_VERSION, received: PROTOCOL_VERSION - 1 } } });
+  });
+
+  it('reads error reports from any version without answering them', () => {
+    expect(validatePacket({ type: 'VERSION_MISMATCH', version: 1, payload: { expected: 1, received: 2 } }, 'host').ok).toBe(true);
+    const check = validatePacket({ type: 'ERROR', version: PROTOCOL_VERSION, payload: 'oops' }, 'host');
+    expect(check).toMatchObject({ ok: false, reply: null });
+  });
+
+  it('rejects what is not a packet, unknown types and packets from the wrong side', () => {
+    expect(validatePacket('hello', 'client')).toMatchObject({ ok: false, reply: { payload: { code: 'MALFORMED_PACKET' } } });
+    expect(validatePacket({ type: 'SHUFFLE', version: PROTOCOL_VERSION, payload: null }, 'client')).toMatchObject({ ok: false, reply: { payload: { code: 'UNKNOWN_TYPE' } } });
+    expect(validatePacket(toPacket({ type: 'REMOVED', payload: { reason: 'KICKED' } }), 'client')).toMatchObject({ ok: false, reply: { payload: { code: 'UNEXPECTED_PACKET' } } });
+    expect(validatePacket(toPacket(action), 'host')).toMatchObject({ ok: false, reply: { payload: { code: 'UNEXPECTED_PACKET' } } });
+  });
+
+  it('checks client payloads field by field', () => {
+    const invalid = (payload: unknown) => validatePacket({ type: 'PLAYER_ACTION', version: PROTOCOL_VERSION, payload }, 'client');
+    expect(invalid({ ...action.payload as object, actionType: 'WIN_GAME' })).toMatchObject({ ok: false, reply: { payload: { code: 'INVALID_PAYLOAD' } } });
+    expect(invalid({ ...action.payload as object, wildColor: 'black' }).ok).toBe(false);
+    expect(invalid({ ...action.payload as object, playerId: 42 }).ok).toBe(false);
+    expect(validatePacket(toPacket({ type: 'JOIN_REQUEST', payload: { name: '   ' } }), 'client').ok).toBe(false);
+  });
+
+  it('accepts only the lobby target scores when starting a match', () => {
+    expect(validatePacket(toPacket(startGame()), 'client').ok).toBe(true);
+    [0, -100, 250.5, 123].forEach(targetScore => {
+      expect(validatePacket(toPacket(startGame({ targetScore })), 'client').ok).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { GameStatus, NetworkMessage, NetworkPacket, PacketType, ProtocolErrorCode } from "../types";
+import { ALL_COLORS, AVATARS, BOT_DIFFICULTIES, CARD_DEFINITIONS, CHAT_MAX_LENGTH, DECK_PRESET_IDS, DEFAULT_RULES, MAX_SEATS, MIN_SEATS, PLAYER_NAME_MAX_LENGTH, PROTOCOL_VERSION, TARGET_SCORE_OPTIONS, TURN_TIME_OPTIONS } from "../constants";
+
+// --- Schemas ---
+// Small composable runtime checks. Packets a client sends are checked field by field;
+// the host is authoritative, so for its packets a structural check is enough.
+type Check = (value: unknown) => boolean;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const str = (max = 64): Check => v => typeof v === 'string' && v.length <= max;
+const nonEmpty = (max: number): Check => v => str(max)(v) && (v as string).trim().length > 0;
+const num: Check = v => typeof v === 'number' && Number.isFinite(v);
+const bool: Check = v => typeof v === 'boolean';
+const isNull: Check = v => v === null;
+const oneOf = (values: readonly unknown[]): Check => v => values.includes(v);
+const optional = (check: Check): Check => v => v === undefined || check(v);
+const nullable = (check: Check): Check => v => v === null || check(v);
+const arrayOf = (check: Check, max = 1000): Check => v => Array.isArray(v) && v.length <= max && v.every(check);
+const shape = (fields: Record<string, Check>): Check => v =>
+  isRecord(v) && Object.entries(fields).every(([key, check]) => check(v[key]));
+const recordOf = (check: Check): Check => v => isRecord(v) && Object.values(v).every(check);
+
+const ACTION_TYPES = ['PLAY_CARD', 'DRAW_CARD', 'PASS_TURN', 'CALL_UNO', 'CATCH_UNO', 'CHALLENGE_WILD4', 'ACCEPT_WILD4', 'GIVE_CARD'];
+const ruleSet = shape(Object.fromEntries(Object.keys(DEFAULT_RULES).map(key => [key, bool])));
+const teamRules = nullable(shape({ showPartnerHand: bool, passCard: bool }));
+const card = shape({ id: str(), color: oneOf([...ALL_COLORS, 'black']), type: oneOf(Object.keys(CARD_DEFINITIONS)), value: optional(num), points: num });
+const cards = arrayOf(card, 500);
+const seat = shape({
+  id: str(), name: str(), avatar: str(), isBot: bool, hand: cards, isUno: bool, isHost: optional(bool),
+  difficulty: optional(oneOf(BOT_DIFFICULTIES)), isAway: optional(bool), team: optional(oneOf([0, 1])), eliminated: optional(bool),
+});
+// A whole authoritative state. Host snapshots are adopted as the game on migration, so unlike
+// the host's other packets they get checked in full (gameEngine's isConsistentState goes further).
+const gameState = shape({
+  status: oneOf(Object.values(GameStatus)),
+  players: arrayOf(seat, MAX_SEATS),
+  currentPlayerIndex: num,
+  direction: oneOf([1, -1]),
+  drawPile: cards,
+  discardPile: cards,
+  currentColor: oneOf(ALL_COLORS),
+  winner: nullable(seat),
+  turnCount: num,
+  roundNumber: num,
+  targetScore: num,
+  scores: recordOf(num),
+  roundHistory: arrayOf(shape({ round: num, winnerId: str(), team: optional(num), points: num })),
+  teams: teamRules,
+  cardsGiven: arrayOf(str(), MAX_SEATS),
+  deck: oneOf(DECK_PRESET_IDS),
+  seed: num,
+  rngState: num,
+  unoWindow: nullable(str()),
+  rules: ruleSet,
+  turnTimeLimit: oneOf(TURN_TIME_OPTIONS),
+  pendingDraw: num,
+  drawnCardId: nullable(str()),
+  pendingWild4: nullable(shape({ playerId: str(), victimId: str(), bluffed: bool })),
+  missedColors: recordOf(oneOf(ALL_COLORS)),
+});
+const lobbyPlayers = arrayOf(shape({ id: str(), name: str(), avatar: optional(oneOf(AVATARS)), ready: optional(bool), flagged: optional(bool), spectator: optional(bool) }), 32);
+
+const SCHEMAS: Record<PacketType, Check> = {
+  JOIN_REQUEST: shape({ name: nonEmpty(64), avatar: optional(oneOf(AVATARS)), sessionToken: optional(str(128)), spectate: optional(bool) }),
+  PLAYER_ACTION: shape({
+    actionType: oneOf(ACTION_TYPES),
+    cardId: optional(str()),
+    wildColor: optional(oneOf(ALL_COLORS)),
+    targetPlayerId: optional(str()),
+    playerId: str(),
+  }),
+  START_GAME: shape({
+    // Only what the lobby offers: 0, negative or fractional targets would end or stall the match
+    targetScore: oneOf(TARGET_SCORE_OPTIONS),
+    rules: ruleSet,
+    seed: optional(num),
+    turnTimeLimit: optional(oneOf(TURN_TIME_OPTIONS)),
+    revealHands: optional(bool),
+    teams: optional(teamRules),
+    deck: optional(oneOf(DECK_PRESET_IDS)),
+    botDifficulties: arrayOf(oneOf(BOT_DIFFICULTIES), MAX_SEATS - 1),
+  }),
+  KICK_PLAYER: shape({ playerId: str(), ban: bool }),
+  REORDER_SEATS: shape({ order: arrayOf(str(), 32) }),
+  ROOM_SETTINGS: shape({ maxPlayers: v => num(v) && Number.isInteger(v) && (v as number) >= MIN_SEATS && (v as number) <= MAX_SEATS }),
+  SET_READY: shape({ ready: bool }),
+  NEXT_ROUND: isNull,
+  RESET_GAME: isNull,
+  JOIN_ACCEPT: shape({ playerId: str(), sessionToken: optional(str(128)), players: lobbyPlayers, isOwner: optional(bool), spectator: optional(bool) }),
+  LOBBY_UPDATE: shape({ players: lobbyPlayers, ownerId: optional(nullable(str())), maxPlayers: optional(num) }),
+  REMOVED: shape({ reason: str() }),
+  RESYNC_REQUEST: shape({ lastSeq: num }),
+  RETURN_TO_SEAT: isNull,
+  GAME_STATE: shape({
+    seq: num,
+    view: shape({ status: oneOf(Object.values(GameStatus)), players: arrayOf(isRecord), myHand: arrayOf(isRecord), recentDiscards: arrayOf(isRecord) }),
+  }),
+  STATE_PATCH: shape({ seq: num, patch: v => isRecord(v) && Object.values(v).every(op => isRecord(op) && ('set' in op || Array.isArray(op.append) || isRecord(op.update))) }),
+  HOST_SUCCESSOR: shape({ playerId: str() }),
+  ACTION_REJECTED: shape({ actionType: str(), reason: str() }),
+  HOST_SNAPSHOT: shape({
+    state: gameState,
+    log: nullable(isRecord),
+    hostPlayerId: str(),
+    peers: arrayOf(shape({ id: str(), name: str(), avatar: optional(str()), sessionTokenHash: optional(str(64)), spectator: optional(bool) }), 16),
+  }),
+  CHAT: shape({ id: str(), senderId: str(), senderName: str(), text: nonEmpty(CHAT_MAX_LENGTH), timestamp: num, isSystem: optional(bool), isSpectator: optional(bool) }),
+  ERROR: shape({ code: str(), message: str(500) }),
+  VERSION_MISMATCH: shape({ expected: num, received: num }),
+};
+
+// Who may send what. Match and lobby controls only mean something to the game server.
+const ACCEPTED_FROM: Record<PacketSource, PacketType[]> = {
+  client: ['JOIN_REQUEST', 'PLAYER_ACTION', 'RESYNC_REQUEST', 'RETURN_TO_SEAT', 'SET_READY', 'START_GAME', 'NEXT_ROUND', 'RESET_GAME', 'KICK_PLAYER', 'REORDER_SEATS', 'ROOM_SETTINGS', 'CHAT', 'ERROR', 'VERSION_MISMATCH'],
+  host: ['JOIN_ACCEPT', 'LOBBY_UPDATE', 'GAME_STATE', 'STATE_PATCH', 'HOST_SUCCESSOR', 'ACTION_REJECTED', 'REMOVED', 'HOST_SNAPSHOT', 'CHAT', 'ERROR', 'VERSION_MISMATCH'],
+};
+
+export type PacketSource = 'client' | 'host';
+
+// Every message goes on the wire stamped with our protocol version
+export const toPacket = (message: NetworkMessage): NetworkPacket => ({ ...message, version: PROTOCOL_VERSION });
+
+export const protocolError = (code: ProtocolErrorCode, message: string): NetworkMessage =>
+  ({ type: 'ERROR', payload: { code, message } });
+
+export type PacketCheck =
+  | { ok: true; packet: NetworkPacket }
+  // `reply` tells the sender what went wrong; null when the packet was itself an error report
+  | { ok: false; reason: string; reply: NetworkMessage | null };
+
+export const validatePacket = (raw: unknown, source: PacketSource): PacketCheck => {
+  if (!isRecord(raw) || typeof raw.type !== 'string') {
+    return { ok: false, reason: 'not a packet', reply: protocolError('MALFORMED_PACKET', 'Pacote inválido') };
+  }
+  const type = raw.type as PacketType;
+  const isReport = type === 'ERROR' || type === 'VERSION_MISMATCH';
+
+  // Error reports are read whatever their version, or two mismatched peers would bounce them forever
+  if (raw.version !== PROTOCOL_VERSION && !isReport) {
+    const received = num(raw.version) ? raw.version as number : 0;
+    return {
+      ok: false,
+      reason: `protocol version ${received}, expected ${PROTOCOL_VERSION}`,
+      reply: { type: 'VERSION_MISMATCH', payload: { expected: PROTOCOL_VERSION, received } },
+    };
+  }
+  if (!Object.prototype.hasOwnProperty.call(SCHEMAS, type)) {
+    return { ok: false, reason: `unknown type ${type}`, reply: protocolError('UNKNOWN_TYPE', `Tipo desconhecido: ${type}`) };
+  }
+  if (!ACCEPTED_FROM[source].includes(type)) {
+    return { ok: false, reason: `${type} from a ${source}`, reply: isReport ? null : protocolError('UNEXPECTED_PACKET', `${type} não é aceito aqui`) };
+  }
+  if (!SCHEMAS[type](raw.payload)) {
+    return { ok: false, reason: `invalid ${type} payload`, reply: isReport ? null : protocolError('INVALID_PAYLOAD', `Dados inválidos em ${type}`) };
+  }
+  return { ok: true, packet: raw as NetworkPacket };
+};
+
+// Validates an incoming packet. Rejections are logged and answered; the caller only
+// ever sees packets that passed.
+export const receivePacket = (
+  raw: unknown,
+  source: PacketSource,
+  senderId: string,
+  reply: (message: NetworkMessage) => void
+): NetworkPacket | null => {
+  const check = validatePacket(raw, source);
+  if ('packet' in check) return check.packet;
+  console.warn(`Rejected packet from ${senderId}: ${check.reason}`, raw);
+  if (check.reply) reply(check.reply);
+  return null;
+};
+
+export const cleanPlayerName = (name: string): string =>
+  name.replace(/\s+/g, ' ').trim().slice(0, PLAYER_NAME_MAX_LENGTH);
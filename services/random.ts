@@ -0,0 +1,32 @@
+// Seedable PRNG (mulberry32). Its whole state is a single uint32, which the
+// engine stores on GameState so every shuffle is reproducible from the seed.
+
+export type RandomFn = () => number;
+
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+
+  const next: RandomFn = () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return { next, getState: () => state };
+};
+
+// Fresh seed for a new match — the only place where Math.random feeds the game
+export const randomSeed = (): number => Math.floor(Math.random() * 4294967296) >>> 0;
+
+// Mixes several values into one seed (FNV-1a), e.g. match seed + turn + bot id
+export const deriveSeed = (...parts: (string | number)[]): number => {
+  let hash = 0x811C9DC5;
+  const text = parts.join('|');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
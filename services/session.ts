@@ -0,0 +1,48 @@
+// The seat a client holds in a room, kept in localStorage so a dropped
+// connection or a reloaded tab can reclaim it from the host.
+export interface StoredSession {
+  roomCode: string;
+  playerId: string;
+  token: string;
+}
+
+const SESSION_KEY = 'cc-session';
+
+export const saveSession = (session: StoredSession) => {
+  try {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch {
+    // Private mode or full storage: resuming simply won't be offered
+  }
+};
+
+export const loadSession = (): StoredSession | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const clearSession = () => {
+  try {
+    localStorage.removeItem(SESSION_KEY);
+  } catch {
+    // Nothing stored
+  }
+};
+
+export const createSessionToken = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// SHA-256 of a token, hex. Null where WebCrypto is unavailable (pages served over plain
+// http from a LAN address are not a secure context).
+export const hashSessionToken = async (token: string): Promise<string | null> => {
+  if (!globalThis.crypto?.subtle) return null;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { GameState, GameStatus, PlayerView } from "../types";
+import { applyAction, createSeats, dealGame } from "./gameEngine";
+import { planTimedOutTurn } from "./botTurn";
+import { getPlayerView } from "./playerView";
+import { applyViewPatch, classifyPatch, createViewSync, diffViews } from "./stateSync";
+
+// The states of the first turns of a seeded match
+const playTurns = (turns: number): GameState[] => {
+  const seats = createSeats([0, 1, 2].map(i => ({ id: `p${i}`, name: `P${i}` })), 3, []);
+  const states = [dealGame(seats, { seed: 11 })];
+  for (let turn = 0; turn < turns && states.at(-1)!.status === GameStatus.PLAYING; turn++) {
+    const current = states.at(-1)!;
+    planTimedOutTurn(current, current.currentPlayerIndex).forEach(action => states.push(applyAction(states.at(-1)!, action).state));
+  }
+  return states;
+};
+
+// What the client ends up with: patches travel as JSON
+const patched = (prev: PlayerView, next: PlayerView) => {
+  const patch = diffViews(prev, next);
+  return patch ? applyViewPatch(prev, JSON.parse(JSON.stringify(patch))) : prev;
+};
+
+describe('view patches', () => {
+  it('rebuild every view of a match from the one before', () => {
+    const states = playTurns(40);
+    ['p0', 'p1', 'p2'].forEach(id => {
+      const views = states.map(state => getPlayerView(state, id));
+      views.slice(1).forEach((view, i) => expect(patched(views[i], view)).toEqual(view));
+    });
+  });
+
+  it('are null when nothing the player sees changed', () => {
+    const view = getPlayerView(playTurns(0)[0], 'p0');
+    expect(diffViews(view, { ...view })).toBeNull();
+  });
+
+  it('only send what was added to a list that grew', () => {
+    const view = getPlayerView(playTurns(0)[0], 'p0');
+    const grown = { ...view, myHand: [...view.myHand, { id: 'new', color: 'red' as const, type: 'number' as const, value: 1, points: 1 }] };
+    expect(diffViews(view, grown)).toEqual({ myHand: { append: [grown.myHand.at(-1)] } });
+  });
+});
+
+describe('numbered sync', () => {
+  it('sends a full view first, then numbered patches', () => {
+    const [first, second] = playTurns(1).map(state => getPlayerView(state, 'p1'));
+    const sync = createViewSync();
+    expect(sync.full('p1', first)).toEqual({ type: 'GAME_STATE', payload: { seq: 1, view: first } });
+    expect(sync.update('p1', first)).toBeNull();
+    expect(sync.update('p1', second)).toMatchObject({ type: 'STATE_PATCH', payload: { seq: 2 } });
+    sync.forget('p1');
+    expect(sync.update('p1', second)).toMatchObject({ type: 'GAME_STATE', payload: { seq: 1 } });
+  });
+
+  it('has the client apply the next patch, skip old ones and resync after a gap', () => {
+    expect(classifyPatch(4, 5, true)).toBe('apply');
+    expect(classifyPatch(4, 4, true)).toBe('skip');
+    expect(classifyPatch(4, 6, true)).toBe('resync');
+    expect(classifyPatch(0, 1, false)).toBe('resync');
+  });
+});
@@ -0,0 +1,88 @@
+import { NetworkMessage, PlayerView, ViewPatch } from "../types";
+
+// Host -> client state sync. A client gets its full view once (GAME_STATE), then one
+// numbered STATE_PATCH per completed action with only the fields that changed. A client
+// that sees a gap in the numbers sends RESYNC_REQUEST and gets the full view again.
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export const diffViews = (prev: PlayerView, next: PlayerView): ViewPatch | null => {
+  const patch: ViewPatch = {};
+  (Object.keys(next) as (keyof PlayerView)[]).forEach(key => {
+    const before = prev[key];
+    const after = next[key];
+    if (same(before, after)) return;
+    if (Array.isArray(before) && Array.isArray(after)) {
+      // Lists that only grew (a drawn card, a finished round) just send the new tail
+      if (after.length > before.length && before.every((item, i) => same(item, after[i]))) {
+        patch[key] = { append: after.slice(before.length) };
+        return;
+      }
+      // Same length (the seats): only the entries that changed
+      if (after.length === before.length) {
+        const update: Record<number, unknown> = {};
+        after.forEach((item, i) => { if (!same(before[i], item)) update[i] = item; });
+        if (Object.keys(update).length < after.length) {
+          patch[key] = { update };
+          return;
+        }
+      }
+    }
+    patch[key] = { set: after };
+  });
+  return Object.keys(patch).length > 0 ? patch : null;
+};
+
+export const applyViewPatch = (view: PlayerView, patch: ViewPatch): PlayerView => {
+  const next: Record<string, unknown> = { ...view };
+  Object.entries(patch).forEach(([key, op]) => {
+    if ('append' in op) {
+      next[key] = [...(next[key] as unknown[]), ...op.append];
+    } else if ('update' in op) {
+      const list = [...(next[key] as unknown[])];
+      Object.entries(op.update).forEach(([i, item]) => { list[Number(i)] = item; });
+      next[key] = list;
+    } else {
+      next[key] = op.set;
+    }
+  });
+  return next as unknown as PlayerView;
+};
+
+// Client side: what to do with STATE_PATCH number `seq` after applying `lastSeq`.
+// Anything but the very next number (or a patch with no view to apply it to) means
+// one was missed, and only a full view can fix that.
+export const classifyPatch = (lastSeq: number, seq: number, hasView: boolean): 'apply' | 'skip' | 'resync' => {
+  if (!hasView) return 'resync';
+  if (seq <= lastSeq) return 'skip';
+  return seq === lastSeq + 1 ? 'apply' : 'resync';
+};
+
+// Host side: what each player was last sent, and under which number
+export const createViewSync = () => {
+  const sent = new Map<string, { seq: number; view: PlayerView }>();
+
+  const full = (playerId: string, view: PlayerView): NetworkMessage => {
+    const seq = (sent.get(playerId)?.seq ?? 0) + 1;
+    sent.set(playerId, { seq, view });
+    return { type: 'GAME_STATE', payload: { seq, view } };
+  };
+
+  return {
+    full,
+    // The message that brings the player up to `view`; null when nothing they see changed
+    update: (playerId: string, view: PlayerView): NetworkMessage | null => {
+      const last = sent.get(playerId);
+      if (!last) return full(playerId, view);
+      const patch = diffViews(last.view, view);
+      if (!patch) return null;
+      const seq = last.seq + 1;
+      sent.set(playerId, { seq, view });
+      return { type: 'STATE_PATCH', payload: { seq, patch } };
+    },
+    // Dropped connections start over with a full view
+    forget: (playerId: string) => { sent.delete(playerId); },
+  };
+};
+
+export type ViewSync = ReturnType<typeof createViewSync>;
@@ -0,0 +1,56 @@
+import { NetworkMessage, TransportKind } from "../types";
+import { createPeerTransport } from "./peerTransport";
+import { createWebSocketTransport } from "./webSocketTransport";
+import { createPollingTransport } from "./pollingTransport";
+import { createLoopbackTransport } from "./loopbackTransport";
+
+// 'unavailable-id': the room code is taken; 'room-not-found': nobody hosts that code;
+// 'room-lost': a running host lost its room (e.g. another host took the code meanwhile)
+export type TransportError = 'unavailable-id' | 'room-not-found' | 'room-lost' | 'network';
+
+// One link to the other side: a client as seen by the host, or the host as seen by a client
+export interface TransportConnection {
+  readonly peerId: string;
+  isOpen: () => boolean;
+  // Stamps the protocol version (see protocol.ts)
+  send: (message: NetworkMessage) => void;
+  close: () => void;
+  // Raw as received: validate before use
+  onData: (handler: (data: unknown) => void) => void;
+  onClose: (handler: () => void) => void;
+}
+
+export interface HostHandlers {
+  onOpen: () => void;
+  onConnection: (conn: TransportConnection) => void;
+  onError: (error: TransportError) => void;
+}
+
+export interface JoinHandlers {
+  onOpen: (conn: TransportConnection) => void;
+  onError: (error: TransportError) => void;
+}
+
+export interface JoinOptions {
+  // Ask a server-backed transport to open the room (the joiner becomes its owner)
+  create?: boolean;
+}
+
+export interface GameTransport {
+  readonly kind: TransportKind;
+  // Missing when the rules run on the game server rather than in a browser
+  host?: (roomCode: string, handlers: HostHandlers) => void;
+  join: (roomCode: string, handlers: JoinHandlers, options?: JoinOptions) => void;
+  destroy: () => void;
+}
+
+export const roomPeerId = (roomCode: string) => `cc-game-${roomCode}`;
+
+export const createTransport = (kind: TransportKind, serverUrl: string): GameTransport => {
+  switch (kind) {
+    case 'peer': return createPeerTransport();
+    case 'websocket': return createWebSocketTransport(serverUrl);
+    case 'polling': return createPollingTransport();
+    case 'loopback': return createLoopbackTransport();
+  }
+};
@@ -1,50 +1,74 @@
-import { GameState, PlayerAction, ChatMessage } from "../types";
+import { NetworkPacket, PollResult } from "../types";
 
 // URL da API na Vercel (ou local)
 const API_URL = '/api/game';
 
+const post = (roomCode: string, type: string, payload: unknown) =>
+  fetch(API_URL + `?roomCode=${roomCode}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type, payload })
+  });
+
+// Abrir ou entrar na sala: o status HTTP e o segredo deste peer para os próximos pedidos
+const register = async (roomCode: string, type: string, payload: unknown): Promise<{ status: number, token: string | null }> => {
+  try {
+    const res = await post(roomCode, type, payload);
+    if (res.status !== 201) return { status: res.status, token: null };
+    const body = await res.json();
+    return { status: res.status, token: typeof body?.token === 'string' ? body.token : null };
+  } catch (e) {
+    console.error("Erro ao registrar na sala:", e);
+    return { status: 0, token: null };
+  }
+};
+
+// Retorno dos pedidos: o status HTTP (0 quando nem chegou ao servidor)
 export const api = {
-  // Ler estado da sala
-  getRoomState: async (roomCode: string) => {
+  // (Host) Abrir a sala. 409: código em uso por outro host ativo
+  openRoom: (roomCode: string, hostId: string) => register(roomCode, 'OPEN_ROOM', { hostId }),
+
+  // (Client) Entrar na sala. 404/410: sala inexistente ou sem host
+  joinRoom: (roomCode: string, peerId: string) => register(roomCode, 'JOIN_ROOM', { peerId }),
+
+  // Ler os pacotes pendentes para este peer, confirmando os recebidos até `after`
+  getRoomState: async (roomCode: string, peerId: string, token: string, after: number): Promise<{ status: number, result: PollResult | null }> => {
     try {
-      const res = await fetch(`${API_URL}?roomCode=${roomCode}`);
-      if (!res.ok) return null;
-      return await res.json();
+      const res = await fetch(`${API_URL}?roomCode=${roomCode}&peerId=${encodeURIComponent(peerId)}&token=${token}&after=${after}`);
+      if (!res.ok) return { status: res.status, result: null };
+      return { status: res.status, result: await res.json() };
     } catch (e) {
       console.error("Erro ao buscar sala:", e);
-      return null;
+      return { status: 0, result: null };
     }
   },
 
-  // (Host) Salvar estado completo do jogo e limpar ações processadas
-  updateGameState: async (roomCode: string, gameState: GameState, chatMessages: ChatMessage[]) => {
+  // (Host) Publicar pacotes para os clientes
+  updateGameState: async (roomCode: string, hostId: string, token: string, packets: { to: string, packet: NetworkPacket }[]): Promise<number> => {
     try {
-      await fetch(API_URL + `?roomCode=${roomCode}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: 'UPDATE_STATE',
-          payload: { gameState, chatMessages, pendingActions: [] } // Limpa ações pois o host já processou
-        })
-      });
+      return (await post(roomCode, 'UPDATE_STATE', { from: hostId, token, packets })).status;
     } catch (e) {
       console.error("Erro ao salvar estado:", e);
+      return 0;
     }
   },
 
-  // (Client/Host) Enviar uma ação para a fila (Jogar carta, Chat, Entrar)
-  sendAction: async (roomCode: string, action: any) => {
+  // (Client) Enviar um pacote para a fila do host (Jogar carta, Chat, Entrar)
+  sendAction: async (roomCode: string, from: string, token: string, packet: NetworkPacket): Promise<number> => {
     try {
-      await fetch(API_URL + `?roomCode=${roomCode}`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          type: 'SEND_ACTION',
-          payload: action
-        })
-      });
+      return (await post(roomCode, 'SEND_ACTION', { from, token, packet })).status;
     } catch (e) {
       console.error("Erro ao enviar ação:", e);
+      return 0;
+    }
+  },
+
+  // Sair da sala (o host sair fecha a sala)
+  leaveRoom: async (roomCode: string, peerId: string, token: string) => {
+    try {
+      await post(roomCode, 'LEAVE', { peerId, token });
+    } catch (e) {
+      console.error("Erro ao sair da sala:", e);
     }
   }
-};
\ No newline at end of file
+};
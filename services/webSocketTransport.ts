@@ -0,0 +1,59 @@
+import { toPacket } from "./protocol";
+import { GameTransport, TransportConnection } from "./transport";
+
+// Close codes used by server/gameServer.ts to refuse a connection
+export const CLOSE_ROOM_NOT_FOUND = 4404;
+export const CLOSE_ROOM_EXISTS = 4409;
+
+// Talks to the authoritative Node game server. There is no browser host:
+// creating a room is a join with `create` set.
+export const createWebSocketTransport = (serverUrl: string): GameTransport => {
+  let socket: WebSocket | null = null;
+
+  return {
+    kind: 'websocket',
+    join: (roomCode, handlers, options = {}) => {
+      const query = `room=${encodeURIComponent(roomCode)}${options.create ? '&create=1' : ''}`;
+      const ws = new WebSocket(`${serverUrl}?${query}`);
+      socket = ws;
+
+      let answered = false;
+      const dataHandlers: ((data: unknown) => void)[] = [];
+      const closeHandlers: (() => void)[] = [];
+
+      const conn: TransportConnection = {
+        peerId: 'server',
+        isOpen: () => ws.readyState === WebSocket.OPEN,
+        send: (message) => {
+          if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(toPacket(message)));
+        },
+        close: () => ws.close(),
+        onData: (handler) => { dataHandlers.push(handler); },
+        onClose: (handler) => { closeHandlers.push(handler); },
+      };
+
+      ws.onopen = () => handlers.onOpen(conn);
+      ws.onmessage = (event) => {
+        answered = true;
+        let data: unknown = event.data;
+        try {
+          data = JSON.parse(event.data);
+        } catch {
+          // Passed on as-is; validation rejects it
+        }
+        dataHandlers.forEach(handler => handler(data));
+      };
+      // A refusal arrives as a close before the server has said anything
+      ws.onclose = (event) => {
+        if (!answered && event.code === CLOSE_ROOM_NOT_FOUND) return handlers.onError('room-not-found');
+        if (!answered && event.code === CLOSE_ROOM_EXISTS) return handlers.onError('unavailable-id');
+        if (!answered && event.code === 1006) return handlers.onError('network');
+        closeHandlers.forEach(handler => handler());
+      };
+    },
+    destroy: () => {
+      socket?.close();
+      socket = null;
+    },
+  };
+};
@@ -1,5 +1,46 @@
-export type CardColor = 'red' | 'blue' | 'green' | 'yellow' | 'black';
-export type CardType = 'number' | 'skip' | 'reverse' | 'draw2' | 'wild' | 'wild4';
+export type CardColor = 'red' | 'blue' | 'green' | 'yellow' | 'purple' | 'orange' | 'black';
+export type CardType =
+  | 'number' | 'skip' | 'reverse' | 'draw2' | 'wild' | 'wild4'
+  | 'skipAll' | 'drawColor' | 'discardColor'
+  | 'reverse4' | 'draw6' | 'draw10' | 'colorRoulette';
+
+// What a card does once it lands on the pile. The engine switches on this, never on the card type.
+export type CardEffect =
+  | 'none'
+  | 'skip'
+  | 'reverse'
+  | 'draw' // The next player draws `drawAmount`
+  | 'wildDraw' // Like 'draw', but the victim may challenge it
+  | 'reverseDraw' // Reverses, then the next player (the previous one until now) draws `drawAmount`
+  | 'skipAll' // Everyone else is skipped: the player goes again
+  | 'drawColor' // The next player draws until a card of the active color shows up, then loses the turn
+  | 'discardColor'; // The player also discards every other card of this color
+
+// Everything the engine, the bots and the UI know about a card type
+export interface CardDefinition {
+  label: string; // Shown in announcements and the replay
+  symbol: string; // Card face
+  corner: string; // Corner index
+  wild: boolean; // Black: playable on anything, the player names the color
+  effect: CardEffect;
+  drawAmount?: number; // Draw cards: stack on any draw card worth the same or less
+  points: number; // Scoring; number cards score their face value instead
+  attack: number; // How hard it hits the next player, for bots (0 = not an attack)
+}
+
+export type DeckPresetId = 'classic' | 'extended' | 'chaos' | 'noMercy';
+
+// A deck as data: which colors are in play and how many copies of each card go in
+export interface DeckDefinition {
+  id: DeckPresetId;
+  name: string;
+  description: string;
+  colors: CardColor[]; // Never 'black'
+  numbers: number[]; // Copies per color of each value, indexed by value
+  actions: Partial<Record<CardType, number>>; // Colored action cards: copies per color
+  wilds: Partial<Record<CardType, number>>; // Black cards: copies in total
+  rules?: Partial<RuleSet>; // House rules the deck always plays with (a variant)
+}
 
 export interface Card {
   id: string;
@@ -17,12 +58,66 @@ export interface Player {
   hand: Card[];
   isUno: boolean; // Has declared UNO
   isHost?: boolean;
+  difficulty?: BotDifficulty; // Bots only
+  isAway?: boolean; // Disconnected human whose seat a bot is playing for now
+  team?: number; // Team mode: 0 or 1, alternating around the table
+  eliminated?: boolean; // Mercy rule: out until the next round, turns skip the seat
+}
+
+export type BotDifficulty = 'easy' | 'normal' | 'hard' | 'expert';
+
+// A card a bot wants to put down, plus the color to name when it is a wild.
+// No move means the bot draws (or passes after drawing).
+export interface BotMove {
+  card: Card;
+  wildColor?: CardColor;
 }
 
 export enum GameStatus {
   LOBBY = 'LOBBY',
   PLAYING = 'PLAYING',
-  GAME_OVER = 'GAME_OVER',
+  ROUND_OVER = 'ROUND_OVER', // Round finished, match continues
+  GAME_OVER = 'GAME_OVER', // Someone reached the target score
+}
+
+// House rules, picked by the host in the lobby
+export interface RuleSet {
+  stackDrawCards: boolean; // +2 on +2, +4 on +2/+4: the penalty accumulates
+  sevenZero: boolean; // 7 swaps hands with a chosen player, 0 rotates every hand
+  jumpIn: boolean; // An identical card may be played out of turn
+  drawUntilPlayable: boolean; // Keep drawing until a playable card shows up
+  forcePlayAfterDraw: boolean; // A playable drawn card must be played at once
+  mercyRule: boolean; // Reaching MERCY_HAND_LIMIT cards eliminates the player for the round
+}
+
+// Team mode (2v2) options. Card counts are public anyway; partners may also see each
+// other's cards, and each player may hand their partner one card per round.
+export interface TeamRules {
+  showPartnerHand: boolean;
+  passCard: boolean;
+}
+
+// A Wild Draw Four waiting for its victim to accept or challenge it
+export interface Wild4Challenge {
+  playerId: string; // Who played the +4
+  victimId: string;
+  bluffed: boolean; // Held a card of the previous color (host-only, never sent to clients)
+}
+
+export interface MatchSettings {
+  targetScore: number;
+  rules: RuleSet;
+  seed: number;
+  turnTimeLimit: number; // Seconds per turn, 0 = no limit
+  teams: TeamRules | null; // null = everyone for themselves
+  deck: DeckPresetId;
+}
+
+export interface RoundResult {
+  round: number;
+  winnerId: string;
+  team?: number; // Team mode: the winner's team, whose players all scored
+  points: number; // Sum of the points left in the opponents' hands
 }
 
 export interface GameState {
@@ -33,8 +128,81 @@ export interface GameState {
   drawPile: Card[];
   discardPile: Card[];
   currentColor: CardColor; // Tracks active color (important for Wilds)
-  winner: Player | null;
+  winner: Player | null; // Winner of the last round (and of the match once GAME_OVER)
+  turnCount: number;
+
+  // Match
+  roundNumber: number;
+  targetScore: number;
+  scores: Record<string, number>; // Cumulative points per player id (partners share theirs)
+  roundHistory: RoundResult[];
+  teams: TeamRules | null;
+  cardsGiven: string[]; // Team mode: who already passed their partner a card this round
+  deck: DeckPresetId; // Composition every round is dealt from
+
+  // Randomness: the match seed plus the PRNG state after the last shuffle
+  seed: number;
+  rngState: number;
+
+  // UNO: id of the player who went down to one card without calling it.
+  // Opponents may catch them until the next turn action.
+  unoWindow: string | null;
+
+  // House Rules
+  rules: RuleSet;
+  turnTimeLimit: number; // Seconds per turn, 0 = no limit (the host keeps the clock)
+  pendingDraw: number; // Stacked +2/+4 penalty waiting for the current player
+  drawnCardId: string | null; // Card the current player just drew and may still play
+  pendingWild4: Wild4Challenge | null;
+
+  // Public knowledge: the active color each player last had to draw on
+  missedColors: Record<string, CardColor>;
+}
+
+// Public projection of a player: opponents only ever see how many cards are held
+export interface PublicPlayer {
+  id: string;
+  name: string;
+  avatar: string;
+  isBot: boolean;
+  isUno: boolean;
+  isHost?: boolean;
+  difficulty?: BotDifficulty;
+  isAway?: boolean;
+  team?: number;
+  eliminated?: boolean;
+  handCount: number;
+  hand?: Card[]; // Revealed hands: spectators when the host allows it, or a partner's
+}
+
+// What a single seat is allowed to know about the table
+export interface PlayerView {
+  status: GameStatus;
+  players: PublicPlayer[];
+  myHand: Card[];
+  currentPlayerIndex: number;
+  direction: 1 | -1;
+  recentDiscards: Card[]; // Top of the discard pile, last element is the active card
+  drawPileCount: number;
+  discardPileCount: number;
+  currentColor: CardColor;
+  winner: PublicPlayer | null;
   turnCount: number;
+  roundNumber: number;
+  targetScore: number;
+  scores: Record<string, number>;
+  roundHistory: RoundResult[];
+  teams: TeamRules | null;
+  cardsGiven: string[];
+  deck: DeckPresetId;
+  seed: number | null; // Null until the match is over
+  unoWindow: string | null;
+  rules: RuleSet;
+  turnTimeLimit: number;
+  pendingDraw: number;
+  drawnCardId: string | null; // Only sent to the player who drew it
+  pendingWild4: Omit<Wild4Challenge, 'bluffed'> | null;
+  missedColors: Record<string, CardColor>;
 }
 
 export interface ChatMessage {
@@ -44,19 +212,244 @@ export interface ChatMessage {
   text: string;
   timestamp: number;
   isSystem?: boolean;
+  isSpectator?: boolean; // Set by the host from who actually sent it
+}
+
+// Match Log / Replay
+export type LogEntry =
+  | { kind: 'ACTION'; action: PlayerAction; events: GameEvent[] }
+  | { kind: 'NEXT_ROUND' };
+
+// Everything needed to rebuild a match through the rules engine:
+// the seats and settings it was dealt with plus every accepted action in order.
+export interface MatchLog {
+  version: number;
+  createdAt: number;
+  seats: Player[];
+  settings: MatchSettings;
+  entries: LogEntry[];
+}
+
+// Local player profile (services/profileStore.ts). It never leaves this device.
+export interface PlayerProfile {
+  id: string; // Stable across sessions
+  name: string;
+  avatar: string;
+  createdAt: number;
+  stats: ProfileStats;
+}
+
+export interface ProfileStats {
+  gamesPlayed: number;
+  wins: number;
+  roundsFinished: number;
+  handPoints: number; // Points still in hand when each of those rounds ended, summed
+  colorsPlayed: Partial<Record<CardColor, number>>; // Cards played per color (wilds count as the color named)
+  wild4Played: number;
+}
+
+// One finished match in the profile's history
+export interface MatchRecord {
+  id: string;
+  profileId: string;
+  finishedAt: number;
+  won: boolean;
+  rounds: number;
+  players: { name: string; avatar: string; score: number; isMe: boolean }[];
+  log: MatchLog | null; // Only a device that ran the rules (host or offline) keeps a replay
 }
 
 // Network Types
 export type NetworkRole = 'HOST' | 'CLIENT' | 'OFFLINE';
 
-export interface NetworkPacket {
-  type: 'GAME_STATE' | 'PLAYER_ACTION' | 'JOIN_REQUEST' | 'JOIN_ACCEPT' | 'LOBBY_UPDATE' | 'CHAT';
-  payload: any;
+// 'peer': a browser hosts over PeerJS; 'websocket': the Node game server hosts;
+// 'polling': a browser hosts, relayed through /api/game (for networks that block WebRTC);
+// 'loopback': host and clients share one page (local testing)
+export type TransportKind = 'peer' | 'websocket' | 'polling' | 'loopback';
+
+// One variant per message. Code builds NetworkMessages; transports put them on the wire as
+// NetworkPackets stamped with the protocol version, and receivers validate every packet
+// (services/protocol.ts) before trusting it.
+export type NetworkMessage =
+  // Client -> host
+  | { type: 'JOIN_REQUEST'; payload: JoinRequest }
+  | { type: 'PLAYER_ACTION'; payload: PlayerAction }
+  | { type: 'RESYNC_REQUEST'; payload: { lastSeq: number } }
+  | { type: 'RETURN_TO_SEAT'; payload: null } // Back from being marked away
+  | { type: 'SET_READY'; payload: { ready: boolean } }
+  // Room owner -> game server (a browser host manages its lobby locally)
+  | { type: 'START_GAME'; payload: StartGameRequest }
+  | { type: 'NEXT_ROUND'; payload: null }
+  | { type: 'RESET_GAME'; payload: null }
+  | { type: 'KICK_PLAYER'; payload: { playerId: string; ban: boolean } }
+  | { type: 'REORDER_SEATS'; payload: { order: string[] } } // Player ids, first seat first
+  | { type: 'ROOM_SETTINGS'; payload: { maxPlayers: number } }
+  // Host -> client
+  | { type: 'JOIN_ACCEPT'; payload: JoinAccept }
+  | { type: 'LOBBY_UPDATE'; payload: LobbyUpdate }
+  | { type: 'GAME_STATE'; payload: ViewSnapshot }
+  | { type: 'STATE_PATCH'; payload: ViewPatchMessage }
+  | { type: 'HOST_SUCCESSOR'; payload: { playerId: string } }
+  | { type: 'HOST_SNAPSHOT'; payload: HostSnapshot }
+  | { type: 'ACTION_REJECTED'; payload: ActionRejected }
+  | { type: 'REMOVED'; payload: { reason: RemovalReason } } // Sent right before the host drops the connection
+  // Either way
+  | { type: 'CHAT'; payload: ChatMessage }
+  | { type: 'ERROR'; payload: ProtocolError }
+  | { type: 'VERSION_MISMATCH'; payload: { expected: number; received: number } };
+
+export type NetworkPacket = NetworkMessage & { version: number };
+
+export type PacketType = NetworkMessage['type'];
+
+// State sync (services/stateSync.ts): a full view once, then numbered patches
+export interface ViewSnapshot {
+  seq: number;
+  view: PlayerView;
+}
+
+// Per changed field: its new value, the items added to the end of a list,
+// or the changed items of a list that kept its length (by index)
+export type ViewPatch = Partial<Record<keyof PlayerView, { set: unknown } | { append: unknown[] } | { update: Record<number, unknown> }>>;
+
+export interface ViewPatchMessage {
+  seq: number;
+  patch: ViewPatch;
+}
+
+export interface JoinRequest {
+  name: string;
+  avatar?: string; // One of AVATARS; the seat gets one by position otherwise
+  sessionToken?: string;
+  spectate?: boolean; // Watch without a seat
+}
+
+export interface LobbyPlayer {
+  id: string;
+  name: string;
+  avatar?: string;
+  ready?: boolean; // The host (or room owner) always is
+  flagged?: boolean; // Caught sending actions an honest client never would
+  spectator?: boolean;
+}
+
+export interface JoinAccept {
+  playerId: string;
+  sessionToken?: string;
+  players: LobbyPlayer[];
+  isOwner?: boolean; // Game server rooms only
+  spectator?: boolean; // Asked to watch, or arrived after the match started
+}
+
+export interface LobbyUpdate {
+  players: LobbyPlayer[]; // In seat order
+  ownerId?: string | null; // Game server rooms only
+  maxPlayers?: number;
+}
+
+export type RemovalReason = 'ROOM_FULL' | 'KICKED' | 'BANNED' | 'SESSION_TAKEN';
+
+// Why the host refused something a client sent: an engine rule, or the host's own checks
+export type ActionRejection = RejectReason | 'NOT_YOUR_SEAT';
+
+export interface ActionRejected {
+  actionType: PlayerAction['actionType'];
+  reason: ActionRejection;
+}
+
+export type ProtocolErrorCode = 'MALFORMED_PACKET' | 'UNKNOWN_TYPE' | 'UNEXPECTED_PACKET' | 'INVALID_PAYLOAD';
+
+export interface ProtocolError {
+  code: ProtocolErrorCode;
+  message: string;
+}
+
+// Sent by the room owner when the game server (not a browser) is the host.
+// One bot joins per difficulty listed, after the humans in seat order.
+export interface StartGameRequest {
+  targetScore: number;
+  rules: RuleSet;
+  seed?: number;
+  turnTimeLimit?: number;
+  revealHands?: boolean; // Spectators see every hand
+  teams?: TeamRules | null; // Needs exactly four seats
+  deck?: DeckPresetId;
+  botDifficulties: BotDifficulty[];
+}
+
+// Host migration: everything the designated successor needs to take over the room.
+// It carries the full state (every hand), so it only ever goes to that one peer.
+export interface HostSnapshot {
+  state: GameState;
+  log: MatchLog | null;
+  hostPlayerId: string;
+  peers: { id: string; name: string; avatar?: string; sessionTokenHash?: string; spectator?: boolean }[]; // Tokens only as SHA-256 hex
+}
+
+// HTTP polling relay (/api/game). The API only queues packets; the rules still run on the host.
+export interface PollingEnvelope {
+  seq: number;
+  from?: string; // Sender's polling peer id, only on client -> host envelopes
+  packet: unknown; // Relayed as-is; the receiver validates it
+}
+
+export interface PollingRoom {
+  hostId: string;
+  seq: number; // Last sequence number handed out
+  tokens: Record<string, string>; // Peer id -> the secret it must present (host included)
+  lastSeen: Record<string, number>; // Peer id -> time of its last request
+  pendingActions: PollingEnvelope[]; // Clients -> host, dropped once the host acknowledges them
+  outbox: Record<string, PollingEnvelope[]>; // Host -> each client
+  departed: string[]; // Clients that left or went quiet, until the host hears about it
+}
+
+export interface PollResult {
+  envelopes: PollingEnvelope[];
+  departed: string[];
 }
 
 export interface PlayerAction {
-  actionType: 'PLAY_CARD' | 'DRAW_CARD' | 'CALL_UNO';
-  cardId?: string;
+  actionType: 'PLAY_CARD' | 'DRAW_CARD' | 'PASS_TURN' | 'CALL_UNO' | 'CATCH_UNO' | 'CHALLENGE_WILD4' | 'ACCEPT_WILD4' | 'GIVE_CARD';
+  cardId?: string; // PLAY_CARD / GIVE_CARD (team mode: handed to the partner)
   wildColor?: CardColor;
+  targetPlayerId?: string; // CATCH_UNO: who is being caught / PLAY_CARD (7-0): who to swap hands with
   playerId: string;
-}
\ No newline at end of file
+}
+
+// Rules Engine Types
+export type RejectReason =
+  | 'GAME_NOT_ACTIVE'
+  | 'UNKNOWN_PLAYER'
+  | 'NOT_YOUR_TURN'
+  | 'CARD_NOT_IN_HAND'
+  | 'INVALID_CARD'
+  | 'MISSING_COLOR'
+  | 'MISSING_TARGET'
+  | 'ALREADY_DREW'
+  | 'CANNOT_PASS'
+  | 'CANNOT_CALL_UNO'
+  | 'NOTHING_TO_CATCH'
+  | 'NO_WILD4_PENDING'
+  | 'CANNOT_GIVE_CARD';
+
+export type GameEvent =
+  | { type: 'CARD_PLAYED'; playerId: string; card: Card; color: CardColor }
+  | { type: 'CARDS_DRAWN'; playerId: string; count: number; reason: 'DRAW' | 'PENALTY' }
+  | { type: 'DECK_RESHUFFLED'; count: number }
+  | { type: 'DIRECTION_CHANGED'; direction: 1 | -1 }
+  | { type: 'JUMPED_IN'; playerId: string }
+  | { type: 'DRAW_STACKED'; playerId: string; total: number }
+  | { type: 'HANDS_SWAPPED'; playerId: string; targetPlayerId: string }
+  | { type: 'HANDS_ROTATED'; direction: 1 | -1 }
+  | { type: 'TURN_PASSED'; playerId: string }
+  | { type: 'WILD4_CHALLENGED'; playerId: string; targetPlayerId: string; success: boolean; penalty: number } // penalty: what the loser draws
+  | { type: 'PLAYER_SKIPPED'; playerId: string }
+  | { type: 'ALL_SKIPPED'; playerId: string }
+  | { type: 'COLOR_DISCARDED'; playerId: string; color: CardColor; count: number }
+  | { type: 'UNO_CALLED'; playerId: string }
+  | { type: 'UNO_CAUGHT'; playerId: string; catcherId: string }
+  | { type: 'CARD_GIVEN'; playerId: string; targetPlayerId: string }
+  | { type: 'PLAYER_ELIMINATED'; playerId: string; handCount: number }
+  | { type: 'ROUND_WON'; playerId: string; points: number }
+  | { type: 'GAME_WON'; playerId: string }
+  | { type: 'ACTION_REJECTED'; playerId: string; reason: RejectReason };
\ No newline at end of file
@@ -1,15 +1,26 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createGameApi, createGameApiHandler } from './server/gameApi';
+import { createStorageFromEnv } from './server/roomStorage';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Serves /api/game (HTTP polling relay) from the dev and preview servers
+    const gameApi = createGameApiHandler(createGameApi(createStorageFromEnv({ ...process.env, ...env })));
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        {
+          name: 'game-api',
+          configureServer: (server) => { server.middlewares.use('/api/game', gameApi); },
+          configurePreviewServer: (server) => { server.middlewares.use('/api/game', gameApi); },
+        },
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)